@@ -10,7 +10,7 @@ module.exports = {
     'packages/*/src/**/*.ts',
     '!packages/*/src/**/*.d.ts',
   ],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@ts-bots/shared$': '<rootDir>/packages/shared/src',
     '^@ts-bots/shared/(.*)$': '<rootDir>/packages/shared/src/$1',
   },
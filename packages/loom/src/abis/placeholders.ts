@@ -28,6 +28,11 @@ export const ERC20_ABI = [
   "function name() view returns (string)"
 ];
 
+// Uniswap V3 NonfungiblePositionManager - only the position read
+export const UNISWAP_POSITION_MANAGER_ABI = [
+  "function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)"
+];
+
 // Contract addresses - These will be extracted from attestation data instead of hardcoded
 export const FIXED_ADDRESSES = {
   // EAS on Arbitrum (from Sage's utils/eas.ts)
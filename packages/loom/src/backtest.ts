@@ -0,0 +1,145 @@
+import {
+  createConfig as createSharedConfig,
+  createForecaster,
+  createGraphQLService,
+  createLogger,
+  StaticForecaster,
+} from '@ts-bots/shared';
+import { config } from 'dotenv';
+import fs from 'fs';
+import { resolve } from 'path';
+import { loadConfig } from './config';
+import {
+  fetchFixture,
+  loadFixture,
+  recordForecasts,
+  saveFixture,
+} from './services/BacktestFixtures';
+import { Backtester } from './services/Backtester';
+import { BacktestReport, LoomConfig } from './types';
+
+// Load .env from the root of the monorepo
+config({ path: resolve(__dirname, '../../../.env') });
+
+/**
+ * Offline backtest: replays the markets in BACKTEST_FIXTURE once per
+ * combination of BACKTEST_CONCENTRATION_RANGES and BACKTEST_SIZING_MODES
+ * (each defaulting to the configured value) and logs one report line per
+ * run. BACKTEST_SOURCE=graphql first rebuilds the fixture from the Sapience
+ * API with forecasts from the configured forecaster.
+ */
+async function main() {
+  const logger = createLogger('Loom');
+  const cfg = loadConfig({ offline: true });
+  const fixturePath = resolve(
+    process.env.BACKTEST_FIXTURE || './backtest/fixture.json'
+  );
+  const source = (process.env.BACKTEST_SOURCE || 'fixture').toLowerCase();
+  if (source !== 'fixture' && source !== 'graphql') {
+    throw new Error(
+      `Unknown BACKTEST_SOURCE: ${source} (expected fixture or graphql)`
+    );
+  }
+
+  if (source === 'graphql') {
+    const shared = createSharedConfig();
+    const fixture = await fetchFixture(createGraphQLService(shared), {
+      bankroll: process.env.BACKTEST_BANKROLL || '1000000000000000000000',
+      limit: parseInt(process.env.BACKTEST_MARKET_LIMIT || '50', 10),
+      candleInterval: parseInt(
+        process.env.BACKTEST_CANDLE_INTERVAL || '3600',
+        10
+      ),
+    });
+    const recorded = await recordForecasts(fixture, createForecaster(shared));
+    logger.info(`Recorded ${recorded} forecasts`);
+    saveFixture(fixturePath, fixture);
+    logger.info(`Fixture written to ${fixturePath}`);
+  }
+
+  const fixture = loadFixture(fixturePath);
+  if (process.env.BACKTEST_BANKROLL) {
+    fixture.bankroll = process.env.BACKTEST_BANKROLL;
+  }
+  // Replace the recorded forecasts, e.g. to compare forecast sets
+  if (process.env.BACKTEST_FORECASTS) {
+    const forecaster = new StaticForecaster(process.env.BACKTEST_FORECASTS);
+    for (const m of fixture.markets) m.forecast = undefined;
+    await recordForecasts(fixture, forecaster);
+  }
+  logger.info(
+    `Backtesting ${fixture.markets.length} markets from ${fixturePath}`
+  );
+
+  const reports: BacktestReport[] = [];
+  for (const variant of variants(cfg)) {
+    const label = `range=${variant.lpManagement.concentrationRange} sizing=${variant.sizing.mode}`;
+    const report = new Backtester(variant, fixture).run(label);
+    reports.push(report);
+    logger.info(formatReport(report, fixture.collateral.symbol));
+  }
+
+  if (process.env.BACKTEST_REPORT) {
+    fs.writeFileSync(
+      process.env.BACKTEST_REPORT,
+      JSON.stringify(reports, null, 2) + '\n'
+    );
+    logger.info(`Report written to ${process.env.BACKTEST_REPORT}`);
+  }
+}
+
+function variants(cfg: LoomConfig): LoomConfig[] {
+  const ranges = list(process.env.BACKTEST_CONCENTRATION_RANGES).map(Number);
+  const modes = list(process.env.BACKTEST_SIZING_MODES);
+  const result: LoomConfig[] = [];
+  for (const range of ranges.length
+    ? ranges
+    : [cfg.lpManagement.concentrationRange]) {
+    for (const mode of modes.length ? modes : [cfg.sizing.mode]) {
+      if (!isFinite(range) || range <= 0) {
+        throw new Error(
+          `Invalid BACKTEST_CONCENTRATION_RANGES entry: ${range}`
+        );
+      }
+      if (mode !== 'fixed' && mode !== 'bankroll' && mode !== 'kelly') {
+        throw new Error(`Invalid BACKTEST_SIZING_MODES entry: ${mode}`);
+      }
+      result.push({
+        ...cfg,
+        lpManagement: { ...cfg.lpManagement, concentrationRange: range },
+        sizing: { ...cfg.sizing, mode },
+      });
+    }
+  }
+  return result;
+}
+
+function list(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function formatReport(r: BacktestReport, symbol: string): string {
+  const amount = (v: number) => `${v.toFixed(4)} ${symbol}`;
+  const metric = (name: string, v?: number) =>
+    v === undefined ? '' : `, ${name}=${v.toFixed(4)}`;
+  return (
+    `${r.label}: pnl=${amount(r.pnl)} (${r.returnPct.toFixed(2)}%), fees=${amount(r.fees)}, ` +
+    `positions=${r.positions}, rebalances=${r.rebalances}, peak capital=${amount(r.peakCapital)}, ` +
+    `utilization=${(r.capitalUtilization * 100).toFixed(1)}%` +
+    metric('brier', r.brierScore) +
+    metric('logLoss', r.logLoss) +
+    metric('numericError', r.numericError) +
+    metric('intervalCoverage', r.intervalCoverage)
+  );
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    const logger = createLogger('Loom');
+    logger.error('Backtest failed:', error);
+    process.exit(1);
+  });
+}
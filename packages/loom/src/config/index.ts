@@ -1,7 +1,14 @@
-import { LoomConfig } from '../types';
+import { ethers } from 'ethers';
+import { EAS_CONFIG, FIXED_ADDRESSES } from '../abis/placeholders';
+import { AccountSignerConfig, LoomConfig, SignerConfig } from '../types';
+import { parseAmountSpec } from '../utils/amounts';
 
-export function loadConfig(): LoomConfig {
-  const requiredEnvVars = ['RPC_URL', 'PRIVATE_KEY', 'CHAIN_ID'];
+/**
+ * Build the config from the environment. `offline` (the backtester) does not
+ * require the chain settings.
+ */
+export function loadConfig(options: { offline?: boolean } = {}): LoomConfig {
+  const requiredEnvVars = options.offline ? [] : ['RPC_URL', 'CHAIN_ID'];
 
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
@@ -11,21 +18,301 @@ export function loadConfig(): LoomConfig {
 
   return {
     blockchain: {
-      rpcUrl: process.env.RPC_URL!,
-      privateKey: process.env.PRIVATE_KEY!,
-      chainId: parseInt(process.env.CHAIN_ID!, 10),
+      rpcUrls: (process.env.RPC_URL || '')
+        .split(',')
+        .map((u) => u.trim())
+        .filter(Boolean),
+      signer: parseSigner(options.offline),
+      chainId: parseInt(process.env.CHAIN_ID || '0', 10),
+    },
+    rpc: {
+      mode: parseRpcMode(process.env.RPC_MODE),
+      quorum: optionalNumber('RPC_QUORUM'),
+      maxRetries: parseInt(process.env.RPC_MAX_RETRIES || '3', 10),
+      retryBaseDelayMs: parseInt(
+        process.env.RPC_RETRY_BASE_DELAY_MS || '500',
+        10
+      ),
+      timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '30000', 10),
+      rateLimit: parseFloat(process.env.RPC_RATE_LIMIT || '0'),
     },
     lpManagement: {
       concentrationRange: parseFloat(process.env.CONCENTRATION_RANGE || '0.05'),
       deviationThreshold: parseFloat(process.env.DEVIATION_THRESHOLD || '0.02'),
       defaultCollateralAmount:
-        process.env.DEFAULT_COLLATERAL_AMOUNT || '1000000000000000000',
+        amount('DEFAULT_COLLATERAL_AMOUNT') || '1000000000000000000',
+      rebalanceEnabled: process.env.REBALANCE_ENABLED !== 'false',
+      confidence: {
+        minRangeScale: parseFloat(
+          process.env.CONFIDENCE_MIN_RANGE_SCALE || '0.5'
+        ),
+        maxRangeScale: parseFloat(
+          process.env.CONFIDENCE_MAX_RANGE_SCALE || '2'
+        ),
+        minSizeFactor: parseFloat(
+          process.env.CONFIDENCE_MIN_SIZE_FACTOR || '0.25'
+        ),
+      },
     },
     riskManagement: {
       cooldownPeriod: parseInt(process.env.COOLDOWN_PERIOD_MS || '300000', 10),
       emergencyStopThreshold: parseFloat(
         process.env.EMERGENCY_STOP_THRESHOLD || '0.1'
       ),
+      emergencyCloseAll: process.env.EMERGENCY_CLOSE_ALL === 'true',
+      maxPositions: parseInt(process.env.MAX_POSITIONS || '0', 10),
+      maxCollateralPerGroup: amount('MAX_COLLATERAL_PER_GROUP'),
+      maxTotalCollateral: amount('MAX_TOTAL_COLLATERAL'),
+    },
+    execution: {
+      liquiditySlippageBps: parseInt(
+        process.env.LIQUIDITY_SLIPPAGE_BPS || '50',
+        10
+      ),
+      tradeSlippageBps: parseInt(process.env.TRADE_SLIPPAGE_BPS || '50', 10),
+      deadlineSeconds: parseInt(process.env.TX_DEADLINE_SECONDS || '300', 10),
+      simulate: process.env.SIMULATE_TRANSACTIONS !== 'false',
+    },
+    transactions: {
+      maxFeePerGasGwei: optionalNumber('TX_MAX_FEE_GWEI'),
+      maxPriorityFeePerGasGwei: optionalNumber('TX_MAX_PRIORITY_FEE_GWEI'),
+      gasLimitMultiplier: parseFloat(
+        process.env.TX_GAS_LIMIT_MULTIPLIER || '1.2'
+      ),
+      confirmationTimeoutMs: parseInt(
+        process.env.TX_CONFIRMATION_TIMEOUT_MS || '180000',
+        10
+      ),
+      maxReplacements: parseInt(process.env.TX_MAX_REPLACEMENTS || '2', 10),
+      feeBumpPercent: parseFloat(process.env.TX_FEE_BUMP_PERCENT || '15'),
+      stuckAction: parseStuckAction(process.env.TX_STUCK_ACTION),
+      maxGasSpendPerRun: nativeAmount('MAX_GAS_SPEND_PER_RUN'),
+    },
+    storage: {
+      dataDir: process.env.DATA_DIR || './data',
+    },
+    easMonitoring: {
+      contractAddress:
+        process.env.EAS_CONTRACT_ADDRESS || FIXED_ADDRESSES.EAS_CONTRACT,
+      schemaId: process.env.EAS_SCHEMA_ID || EAS_CONFIG.SCHEMA_ID,
+      targetAttesters: (process.env.TARGET_ATTESTER_ADDRESSES || '')
+        .split(',')
+        .map((a) => a.trim().toLowerCase())
+        .filter(Boolean),
+      pollingIntervalMs: parseInt(
+        process.env.POLLING_INTERVAL_MS || '30000',
+        10
+      ),
+      startBlock: process.env.EAS_START_BLOCK
+        ? parseInt(process.env.EAS_START_BLOCK, 10)
+        : undefined,
+      maxBlockRange: parseInt(process.env.EAS_MAX_BLOCK_RANGE || '10000', 10),
+    },
+    easPublishing: {
+      enabled: process.env.PUBLISH_ATTESTATIONS === 'true',
+      dryRun:
+        process.env.PUBLISH_ATTESTATIONS_DRY_RUN === 'true' ||
+        process.env.DRY_RUN === 'true',
+      minChange: parseFloat(process.env.ATTESTATION_MIN_CHANGE || '0.01'),
+    },
+    settlement: {
+      enabled: process.env.SETTLEMENT_SWEEP !== 'false',
+    },
+    discovery: {
+      resyncIntervalMs: parseInt(
+        process.env.MARKET_RESYNC_INTERVAL_MS || '3600000',
+        10
+      ),
+      retryDelayMs: parseInt(process.env.MARKET_RETRY_DELAY_MS || '60000', 10),
+    },
+    windDown: {
+      noNewPositionsSeconds: hoursToSeconds(process.env.WIND_DOWN_NO_NEW_HOURS),
+      decreaseSeconds: hoursToSeconds(process.env.WIND_DOWN_DECREASE_HOURS),
+      decreaseFraction: parseFloat(
+        process.env.WIND_DOWN_DECREASE_FRACTION || '0.5'
+      ),
+      closeSeconds: hoursToSeconds(process.env.WIND_DOWN_CLOSE_HOURS),
+    },
+    trading: {
+      strategy: parseStrategy(process.env.STRATEGY),
+      edgeThreshold: parseFloat(process.env.TRADE_EDGE_THRESHOLD || '0.05'),
+      exitEdge: parseFloat(process.env.TRADE_EXIT_EDGE || '0.01'),
+      maxCollateral:
+        amount('TRADE_MAX_COLLATERAL') ||
+        amount('DEFAULT_COLLATERAL_AMOUNT') ||
+        '1000000000000000000',
+    },
+    sizing: {
+      mode: parseSizingMode(process.env.SIZING_MODE),
+      bankrollFraction: parseFloat(
+        process.env.SIZING_BANKROLL_FRACTION || '0.5'
+      ),
+      kellyFraction: parseFloat(process.env.SIZING_KELLY_FRACTION || '0.25'),
+      minCollateral: amount('SIZING_MIN_COLLATERAL'),
+      maxCollateral: amount('SIZING_MAX_COLLATERAL'),
     },
   };
 }
+
+function parseStrategy(value?: string): LoomConfig['trading']['strategy'] {
+  const strategy = (value || 'lp').toLowerCase();
+  if (strategy !== 'lp' && strategy !== 'directional') {
+    throw new Error(`Invalid STRATEGY: ${value} (expected lp or directional)`);
+  }
+  return strategy;
+}
+
+function parseSizingMode(value?: string): LoomConfig['sizing']['mode'] {
+  const mode = (value || 'fixed').toLowerCase();
+  if (mode !== 'fixed' && mode !== 'bankroll' && mode !== 'kelly') {
+    throw new Error(
+      `Invalid SIZING_MODE: ${value} (expected fixed, bankroll or kelly)`
+    );
+  }
+  return mode;
+}
+
+function parseRpcMode(value?: string): LoomConfig['rpc']['mode'] {
+  const mode = (value || 'fallback').toLowerCase();
+  if (mode !== 'fallback' && mode !== 'quorum') {
+    throw new Error(`Invalid RPC_MODE: ${value} (expected fallback or quorum)`);
+  }
+  return mode;
+}
+
+function parseSigner(offline?: boolean): SignerConfig {
+  const type = (process.env.SIGNER || 'private-key').toLowerCase();
+  if (type === 'pool') {
+    const members = (process.env.SIGNER_POOL || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => parsePoolMember(entry, offline));
+    if (members.length === 0 && !offline) {
+      throw new Error('Missing required environment variable: SIGNER_POOL');
+    }
+    return { type, members };
+  }
+  if (type === 'private-key' || type === 'keystore' || type === 'remote') {
+    return accountSigner(type, undefined, offline);
+  }
+  throw new Error(
+    `Invalid SIGNER: ${process.env.SIGNER} (expected private-key, keystore, remote or pool)`
+  );
+}
+
+// SIGNER_POOL entries: key:<ENV_VAR>, keystore:<path> or remote:<address>
+function parsePoolMember(entry: string, offline?: boolean) {
+  const separator = entry.indexOf(':');
+  const kind = entry.slice(0, separator);
+  const value = entry.slice(separator + 1).trim();
+  const types = {
+    key: 'private-key',
+    keystore: 'keystore',
+    remote: 'remote',
+  } as const;
+  if (separator < 0 || !(kind in types) || !value) {
+    throw new Error(
+      `Invalid SIGNER_POOL entry: ${entry} (expected key:<ENV_VAR>, keystore:<path> or remote:<address>)`
+    );
+  }
+  return accountSigner(types[kind as keyof typeof types], value, offline);
+}
+
+function accountSigner(
+  type: AccountSignerConfig['type'],
+  value: string | undefined,
+  offline?: boolean
+): AccountSignerConfig {
+  const required = (envVar: string) => {
+    const envValue = process.env[envVar];
+    if (!envValue && !offline) {
+      throw new Error(`Missing required environment variable: ${envVar}`);
+    }
+    return envValue || '';
+  };
+
+  switch (type) {
+    case 'private-key':
+      return { type, privateKey: required(value || 'PRIVATE_KEY') };
+    case 'keystore': {
+      const password = process.env.KEYSTORE_PASSWORD;
+      const passwordFile = process.env.KEYSTORE_PASSWORD_FILE;
+      if (!password && !passwordFile && !offline) {
+        throw new Error(
+          'Missing required environment variable: KEYSTORE_PASSWORD or KEYSTORE_PASSWORD_FILE'
+        );
+      }
+      return {
+        type,
+        path: value || required('KEYSTORE_PATH'),
+        password,
+        passwordFile,
+      };
+    }
+    case 'remote': {
+      const api = (process.env.REMOTE_SIGNER_API || 'clef').toLowerCase();
+      if (api !== 'clef' && api !== 'eth') {
+        throw new Error(
+          `Invalid REMOTE_SIGNER_API: ${process.env.REMOTE_SIGNER_API} (expected clef or eth)`
+        );
+      }
+      return {
+        type,
+        url: required('REMOTE_SIGNER_URL'),
+        api,
+        address: value || process.env.REMOTE_SIGNER_ADDRESS || undefined,
+      };
+    }
+  }
+}
+
+function parseStuckAction(
+  value?: string
+): LoomConfig['transactions']['stuckAction'] {
+  const action = (value || 'speed-up').toLowerCase();
+  if (action !== 'speed-up' && action !== 'cancel') {
+    throw new Error(
+      `Invalid TX_STUCK_ACTION: ${value} (expected speed-up or cancel)`
+    );
+  }
+  return action;
+}
+
+function optionalNumber(envVar: string): number | undefined {
+  const value = process.env[envVar];
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  if (!isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${envVar}: ${value}`);
+  }
+  return parsed;
+}
+
+// Native token amounts in token units, e.g. "0.01" (ETH)
+function nativeAmount(envVar: string): string | undefined {
+  const value = process.env[envVar];
+  if (!value) return undefined;
+  try {
+    ethers.parseEther(value);
+  } catch {
+    throw new Error(`Invalid ${envVar}: ${value}`);
+  }
+  return value;
+}
+
+// Collateral amounts are validated here and resolved per token at use
+function amount(envVar: string): string | undefined {
+  const value = process.env[envVar];
+  if (!value) return undefined;
+  try {
+    parseAmountSpec(value);
+  } catch (error) {
+    throw new Error(`Invalid ${envVar}: ${(error as Error).message}`);
+  }
+  return value;
+}
+
+function hoursToSeconds(value?: string): number {
+  return Math.round(parseFloat(value || '0') * 3600);
+}
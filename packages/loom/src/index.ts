@@ -5,7 +5,10 @@ import {
 import { config } from 'dotenv';
 import { resolve } from 'path';
 import { loadConfig } from './config';
+import { AttestationLPAgent } from './services/AttestationLPAgent';
 import { MarketLPAgent } from './services/MarketLPAgent';
+import { checkChainId } from './services/RpcProvider';
+import { SignerPool } from './services/SignerPool';
 
 // Load .env from the root of the monorepo
 config({ path: resolve(__dirname, '../../../.env') });
@@ -16,28 +19,83 @@ async function main() {
     logger.info('Initializing Loom Market LP Agent...');
 
     const cfg = loadConfig();
+    const mode = (process.env.MODE || 'openai').toLowerCase();
+    if (mode !== 'openai' && mode !== 'eas') {
+      throw new Error(`Unknown MODE: ${mode} (expected openai or eas)`);
+    }
 
     // Print config summary for observability
     const shared = createSharedConfig();
-    const intervalSec = parseInt(process.env.OPENAI_MODE_INTERVAL || '60', 10);
+    const intervalSec =
+      mode === 'eas'
+        ? Math.round(cfg.easMonitoring.pollingIntervalMs / 1000)
+        : parseInt(process.env.OPENAI_MODE_INTERVAL || '60', 10);
     logger.info('Configuration Summary');
+    logger.info(`mode=${mode}`);
     logger.debug(
-      `Blockchain rpcUrl=${cfg.blockchain.rpcUrl}, chainId=${cfg.blockchain.chainId}`
+      `Blockchain rpcEndpoints=${cfg.blockchain.rpcUrls.length}, rpcMode=${cfg.rpc.mode}, chainId=${cfg.blockchain.chainId}`
     );
     logger.debug(`SAPIENCE_API=${shared.graphqlEndpoint}`);
     logger.debug(
       `OPENAI_API_KEY set=${Boolean(shared.openaiApiKey || process.env.OPENAI_API_KEY)}`
     );
+    if (mode === 'eas') {
+      logger.info(
+        `EAS contract=${cfg.easMonitoring.contractAddress}, schemaId=${cfg.easMonitoring.schemaId}, attesters=${cfg.easMonitoring.targetAttesters.join(',')}`
+      );
+    }
+    logger.debug(
+      `EAS publishing enabled=${cfg.easPublishing.enabled}, dryRun=${cfg.easPublishing.dryRun}, minChange=${cfg.easPublishing.minChange}`
+    );
+    logger.info(
+      `Forecaster=${shared.forecaster}${
+        shared.forecaster === 'ensemble'
+          ? ` (${shared.ensembleMethod}: ${shared.ensembleForecasters})`
+          : ''
+      }, openaiModel=${shared.openaiModel}`
+    );
     logger.info(`intervalSec=${intervalSec}`);
+    if (mode === 'openai') {
+      logger.info(
+        `strategy=${cfg.trading.strategy}${
+          cfg.trading.strategy === 'directional'
+            ? ` (edgeThreshold=${cfg.trading.edgeThreshold}, exitEdge=${cfg.trading.exitEdge}, maxCollateral=${cfg.trading.maxCollateral})`
+            : ''
+        }`
+      );
+    }
     logger.debug(
       `LP concentrationRange=${cfg.lpManagement.concentrationRange}, deviationThreshold=${cfg.lpManagement.deviationThreshold}, defaultCollateralAmount=${cfg.lpManagement.defaultCollateralAmount}`
     );
-    logger.debug(`Risk cooldownPeriodMs=${cfg.riskManagement.cooldownPeriod}`);
+    logger.debug(
+      `Execution liquiditySlippageBps=${cfg.execution.liquiditySlippageBps}, tradeSlippageBps=${cfg.execution.tradeSlippageBps}, deadlineSeconds=${cfg.execution.deadlineSeconds}, simulate=${cfg.execution.simulate}`
+    );
+    logger.debug(`Data dir=${cfg.storage.dataDir}`);
+    logger.debug(
+      `Rebalance enabled=${cfg.lpManagement.rebalanceEnabled}, cooldownPeriodMs=${cfg.riskManagement.cooldownPeriod}`
+    );
+    logger.debug(
+      `Risk maxPositions=${cfg.riskManagement.maxPositions}, maxCollateralPerGroup=${cfg.riskManagement.maxCollateralPerGroup ?? 'unlimited'}, maxTotalCollateral=${cfg.riskManagement.maxTotalCollateral ?? 'unlimited'}, emergencyStopThreshold=${cfg.riskManagement.emergencyStopThreshold}, emergencyCloseAll=${cfg.riskManagement.emergencyCloseAll}`
+    );
 
-    logger.info('Running OpenAI-driven Market LP Agent...');
-    const agent = new MarketLPAgent(cfg);
+    await checkChainId(cfg);
+    const signers = await SignerPool.load(cfg);
+    logger.info(
+      `Signer=${cfg.blockchain.signer.type}, accounts=${signers.addresses.join(',')}`
+    );
+
+    const agent =
+      mode === 'eas'
+        ? new AttestationLPAgent(cfg, signers)
+        : new MarketLPAgent(cfg, signers);
+    logger.info(
+      mode === 'eas'
+        ? 'Running EAS attestation-driven Market LP Agent...'
+        : 'Running OpenAI-driven Market LP Agent...'
+    );
+    await agent.reconcilePositions();
     const intervalMs = Math.max(5, intervalSec) * 1000;
-    logger.info(`OpenAI agent loop interval: ${intervalSec}s`);
+    logger.info(`Agent loop interval: ${intervalSec}s`);
 
     let stopping = false;
     const loop = async () => {
@@ -52,13 +110,13 @@ async function main() {
     };
 
     process.on('SIGINT', async () => {
-      logger.info('Received SIGINT, stopping OpenAI loop...');
+      logger.info('Received SIGINT, stopping agent loop...');
       stopping = true;
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
-      logger.info('Received SIGTERM, stopping OpenAI loop...');
+      logger.info('Received SIGTERM, stopping agent loop...');
       stopping = true;
       process.exit(0);
     });
@@ -80,5 +138,7 @@ if (require.main === module) {
 }
 
 export * from './config';
+export * from './services/AttestationLPAgent';
 export * from './services/MarketLPAgent';
 export * from './types';
+export * from './utils/errors';
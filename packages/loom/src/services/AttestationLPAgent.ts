@@ -0,0 +1,312 @@
+import {
+  createLogger,
+  getTickAtSqrtRatio,
+  sqrtPriceX96ToPrice,
+} from '@ts-bots/shared';
+import { resolve } from 'path';
+import { LoomConfig, PredictionAttestation } from '../types';
+import { formatAmount, resolveAmount } from '../utils/amounts';
+import { decodeSapienceError } from '../utils/errors';
+import { LoomLogger } from '../utils/logger';
+import { EASMonitor } from './EASMonitor';
+import { LPManager } from './LPManager';
+import { PositionIndex } from './PositionIndex';
+import { PositionSizer } from './PositionSizer';
+import { PositionStore } from './PositionStore';
+import { PriceModel } from './PriceModel';
+import { RiskManager } from './RiskManager';
+import { SettlementSweeper } from './SettlementSweeper';
+import { SignerPool } from './SignerPool';
+import { TransactionError, TransactionManager } from './TransactionManager';
+import { WindDownManager } from './WindDownManager';
+
+// `applied`: position created or rebalanced; `done`: nothing to do for it;
+// `retry`: not acted on this run (risk, collateral, dry run), kept pending
+type AttestationOutcome = 'applied' | 'done' | 'retry';
+
+/**
+ * MODE=eas: mirrors predictions attested by trusted forecasters. Each new
+ * attestation becomes the target price for an LP position in its market,
+ * creating one or rebalancing the one we already hold. Attestations stay in
+ * EASMonitor's pending queue until acted on, so a halted or cut-short run
+ * picks them up again.
+ */
+export class AttestationLPAgent {
+  private monitor: EASMonitor;
+  private store: PositionStore;
+  private sizer: PositionSizer;
+  private risk: RiskManager;
+  private sweeper: SettlementSweeper;
+  private windDown: WindDownManager;
+
+  constructor(
+    private loomConfig: LoomConfig,
+    private signers: SignerPool
+  ) {
+    this.monitor = new EASMonitor(loomConfig);
+    this.store = new PositionStore(
+      resolve(loomConfig.storage.dataDir, 'positions.jsonl')
+    );
+    this.sizer = new PositionSizer(
+      loomConfig.lpManagement.confidence.minSizeFactor,
+      loomConfig.sizing
+    );
+    this.risk = new RiskManager(loomConfig, this.store, signers);
+    this.sweeper = new SettlementSweeper(loomConfig, this.store, signers);
+    this.windDown = new WindDownManager(loomConfig, this.store, signers);
+  }
+
+  /**
+   * Reconcile the local position store with on-chain state. Run once at
+   * startup.
+   */
+  async reconcilePositions(): Promise<void> {
+    await LPManager.reconcileStore(this.loomConfig, this.store, this.signers);
+  }
+
+  async runOnce(): Promise<void> {
+    const logger = createLogger('Loom');
+    const model = new PriceModel(this.loomConfig.lpManagement.confidence);
+    const index = new PositionIndex();
+    TransactionManager.startRun();
+
+    // Settle resolved markets first: frees collateral and keeps them out of
+    // the drawdown mark
+    await this.sweeper.sweep();
+    await this.windDown.run();
+    await this.risk.evaluateDrawdown();
+
+    const attestations = await this.monitor.poll();
+    const pending = this.monitor.pending;
+    logger.info(
+      `New attestations: ${attestations.length}, markets pending: ${pending.length}`
+    );
+    if (this.risk.isHalted) {
+      logger.warn(
+        'Emergency stop active: attestations stay pending and are not turned into positions.'
+      );
+      return;
+    }
+
+    let handledCount = 0;
+    for (const [i, attestation] of pending.entries()) {
+      try {
+        const outcome = await this.handleAttestation(
+          attestation,
+          model,
+          index,
+          pending.length - i
+        );
+        if (outcome === 'applied') handledCount += 1;
+        if (outcome !== 'retry') this.monitor.resolve(attestation);
+      } catch (error) {
+        if (
+          error instanceof TransactionError &&
+          error.reason === 'gas-budget'
+        ) {
+          logger.error(`${error.message}. Stopping this run.`);
+          break;
+        }
+        const decoded = decodeSapienceError(error);
+        if (decoded?.errorName === 'CollateralBelowMin') {
+          this.sizer.recordMinimum(
+            attestation.marketAddress,
+            BigInt(decoded.args.minCollateral as bigint)
+          );
+        }
+        LoomLogger.logError(
+          `attestation ${attestation.uid} (market ${attestation.marketId})`,
+          decoded ?? error
+        );
+        // Other failures keep the attestation pending for the next run
+        if (decoded?.action === 'skip-market') {
+          this.monitor.resolve(attestation);
+        }
+        if (decoded?.action === 'stop-run') {
+          logger.error('Stopping this run.');
+          break;
+        }
+      }
+    }
+
+    logger.info(
+      `Run complete. Markets attested=${pending.length}, positions created or rebalanced=${handledCount}, still pending=${this.monitor.pending.length}`
+    );
+  }
+
+  private async handleAttestation(
+    attestation: PredictionAttestation,
+    model: PriceModel,
+    index: PositionIndex,
+    candidates: number
+  ): Promise<AttestationOutcome> {
+    const logger = createLogger('Loom');
+    LoomLogger.logAttestationReceived(attestation);
+
+    const lpManager = new LPManager(
+      this.loomConfig,
+      attestation.marketAddress,
+      this.signers.forMarket(
+        this.store,
+        attestation.marketAddress,
+        attestation.marketId.toString()
+      ),
+      { store: this.store, index }
+    );
+    const marketId = attestation.marketId;
+
+    const marketData = await lpManager.getMarketData(marketId);
+    const nowSec = Math.floor(Date.now() / 1000);
+    if (marketData.settled || Number(marketData.endTime) < nowSec) {
+      logger.info(`Market ${marketId} is settled or expired, skipping.`);
+      return 'done';
+    }
+    if (!this.windDown.allowsNewPosition(Number(marketData.endTime), nowSec)) {
+      logger.info(
+        `Market ${marketId} is inside the wind-down window, skipping.`
+      );
+      return 'done';
+    }
+
+    // Numeric markets attest a value in the market's units, binary ones a
+    // probability
+    const params = await lpManager.getMarketPriceParams(marketData);
+    const targetPrice = params.numeric
+      ? model.valueToPrice(attestation.likelihood, params)
+      : model.likelihoodToPrice(Math.min(1, attestation.likelihood));
+    const currentPrice = sqrtPriceX96ToPrice(marketData.currentSqrtPriceX96);
+    const currentTick = getTickAtSqrtRatio(marketData.currentSqrtPriceX96);
+    const ticks = model.priceToTicks(
+      targetPrice,
+      currentTick,
+      this.loomConfig.lpManagement.concentrationRange,
+      params
+    );
+    LoomLogger.logLPStrategy({ currentPrice }, targetPrice, ticks);
+
+    const reasoning = `EAS ${attestation.uid} by ${attestation.attester}: ${attestation.comment}`;
+    const dryRun = process.env.DRY_RUN === 'true';
+    const token = await lpManager.tokens.get(marketData.collateralAddress);
+    const sizeCollateral = async (balance: bigint) => {
+      const priceFloor = params.numeric ? params.minPrice : 0;
+      const priceScale =
+        (params.numeric && params.maxPrice - params.minPrice) || 1;
+      return this.sizer.size({
+        baseAmount: resolveAmount(
+          this.loomConfig.lpManagement.defaultCollateralAmount,
+          token
+        ),
+        balance,
+        candidateMarkets: candidates,
+        forecast: (targetPrice - priceFloor) / priceScale,
+        poolPrice: (currentPrice - priceFloor) / priceScale,
+        token,
+        minCollateral: await this.sizer.minimumFor(lpManager),
+      });
+    };
+
+    const existing = await lpManager.getCurrentLPPosition(marketId);
+    const marketGroupAddress = attestation.marketAddress;
+    const balance = await lpManager.getCollateralBalance(
+      marketData.collateralAddress
+    );
+    if (existing) {
+      const reasons = lpManager.getRebalanceReasons(
+        existing,
+        targetPrice,
+        currentPrice,
+        currentTick
+      );
+      if (reasons.length === 0) {
+        logger.debug(
+          `Market ${marketId}: position ${existing.id} within tolerance.`
+        );
+        return 'done';
+      }
+      logger.info(
+        `Market ${marketId}: rebalancing ${existing.id} (${reasons.join('; ')})`
+      );
+      // The replaced position's collateral returns to the bankroll
+      const released = BigInt(
+        (existing.tokenId !== undefined &&
+          this.store.get(marketGroupAddress, existing.tokenId)
+            ?.collateralAmount) ||
+          '0'
+      );
+      const sizing = await sizeCollateral(balance + released);
+      if (sizing.amount === 0n) {
+        logger.info(
+          `Market ${marketId}: ${sizing.reason}, keeping ${existing.id}.`
+        );
+        return 'retry';
+      }
+      const collateralAmount = sizing.amount.toString();
+      const decision = this.risk.checkAdjustment(
+        marketGroupAddress,
+        marketId.toString(),
+        existing.tokenId,
+        BigInt(collateralAmount),
+        token
+      );
+      if (!decision.allowed) {
+        logger.info(
+          `Market ${marketId}: risk check refused rebalance (${decision.reason}).`
+        );
+        return 'retry';
+      }
+      if (dryRun) {
+        logger.info('DRY RUN enabled: skipping adjustLPPosition call.');
+        return 'retry';
+      }
+      await lpManager.adjustLPPosition(
+        existing,
+        ticks.lowerTick,
+        ticks.upperTick,
+        targetPrice,
+        collateralAmount,
+        reasoning
+      );
+      return 'applied';
+    }
+
+    const sizing = await sizeCollateral(balance);
+    if (sizing.amount === 0n) {
+      logger.info(`Market ${marketId}: ${sizing.reason}, skipping.`);
+      return 'retry';
+    }
+    const collateralAmount = sizing.amount.toString();
+    const decision = this.risk.checkNewPosition(
+      marketGroupAddress,
+      marketId.toString(),
+      BigInt(collateralAmount),
+      token
+    );
+    if (!decision.allowed) {
+      logger.info(
+        `Market ${marketId}: risk check refused new position (${decision.reason}), skipping.`
+      );
+      return 'retry';
+    }
+
+    if (balance < BigInt(collateralAmount)) {
+      logger.info(
+        `Insufficient collateral (${formatAmount(balance, token)}) for required ${formatAmount(collateralAmount, token)}, skipping market ${marketId}.`
+      );
+      return 'retry';
+    }
+
+    if (dryRun) {
+      logger.info('DRY RUN enabled: skipping createLPPosition call.');
+      return 'retry';
+    }
+    await lpManager.createLPPosition(
+      marketId,
+      ticks.lowerTick,
+      ticks.upperTick,
+      targetPrice,
+      collateralAmount,
+      reasoning
+    );
+    return 'applied';
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  createLogger,
+  Forecaster,
+  GraphQLService,
+  MARKET_CANDLES_QUERY,
+  MARKETS_QUERY,
+  tickToPrice,
+} from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { dirname } from 'path';
+import { BacktestFixture } from '../types';
+import { parseAmountSpec } from '../utils/amounts';
+
+/** Read a fixture file, failing on anything the backtester cannot replay. */
+export function loadFixture(path: string): BacktestFixture {
+  const fixture = JSON.parse(fs.readFileSync(path, 'utf8')) as BacktestFixture;
+  if (!fixture.collateral?.symbol || !isFinite(fixture.collateral.decimals)) {
+    throw new Error(`${path}: collateral needs a symbol and decimals`);
+  }
+  parseAmountSpec(fixture.bankroll ?? '');
+  if (!Array.isArray(fixture.markets)) {
+    throw new Error(`${path}: markets must be an array`);
+  }
+  for (const m of fixture.markets) {
+    const id = `market ${m.marketGroupAddress}:${m.marketId}`;
+    if (!isFinite(m.endTime) || !isFinite(m.settlementPrice)) {
+      throw new Error(`${path}: ${id} needs endTime and settlementPrice`);
+    }
+    if (!Array.isArray(m.prices) || m.prices.length === 0) {
+      throw new Error(`${path}: ${id} has no prices`);
+    }
+    const f = m.forecast;
+    if (
+      f &&
+      !m.numeric &&
+      !(f.probabilityYes! >= 0 && f.probabilityYes! <= 1)
+    ) {
+      throw new Error(`${path}: ${id} forecast needs probabilityYes in 0..1`);
+    }
+    if (f && m.numeric && !isFinite(f.estimate ?? NaN)) {
+      throw new Error(`${path}: ${id} forecast needs an estimate`);
+    }
+  }
+  return fixture;
+}
+
+export function saveFixture(path: string, fixture: BacktestFixture): void {
+  fs.mkdirSync(dirname(path), { recursive: true });
+  fs.writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+/**
+ * Build a fixture from the Sapience API: settled markets with their pool
+ * price candles (close prices, D18). Markets whose collateral differs from
+ * the first one returned are left out so the fixture has one bankroll.
+ */
+export async function fetchFixture(
+  gql: GraphQLService,
+  options: { bankroll: string; limit: number; candleInterval: number }
+): Promise<BacktestFixture> {
+  const logger = createLogger('Loom');
+  const markets = await gql.paginate(
+    MARKETS_QUERY,
+    { where: { settled: { equals: true } }, orderBy: [{ id: 'asc' }] },
+    (r) => r.markets
+  );
+  logger.info(`Resolved markets: ${markets.length}`);
+
+  const first = markets[0]?.marketGroup;
+  const collateral = {
+    symbol: first?.collateralSymbol || 'TOKEN',
+    decimals: first?.collateralDecimals ?? 18,
+  };
+
+  const fixture: BacktestFixture = {
+    collateral,
+    bankroll: options.bankroll,
+    markets: [],
+  };
+  for (const m of markets) {
+    if (fixture.markets.length >= options.limit) break;
+    const group = m.marketGroup;
+    if ((group.collateralSymbol || 'TOKEN') !== collateral.symbol) {
+      logger.warn(
+        `Market ${group.address}:${m.marketId} uses ${group.collateralSymbol}, not ${collateral.symbol}; leaving it out.`
+      );
+      continue;
+    }
+    const start = Number(m.startTimestamp ?? 0);
+    const end = Number(m.endTimestamp ?? 0);
+    const { marketCandles } = await gql.query(MARKET_CANDLES_QUERY, {
+      chainId: group.chainId,
+      marketAddress: group.address,
+      marketId: String(m.marketId),
+      from: start,
+      to: end,
+      interval: options.candleInterval,
+    });
+    const prices = marketCandles
+      .map((c) => ({
+        timestamp: Number(c.timestamp),
+        price: Number(ethers.formatUnits(BigInt(c.close), 18)),
+      }))
+      .filter((p) => p.price > 0);
+    if (prices.length === 0) {
+      logger.warn(`Market ${group.address}:${m.marketId} has no candles.`);
+      continue;
+    }
+
+    const minTick = Number(m.baseAssetMinPriceTick ?? -92200);
+    const maxTick = Number(m.baseAssetMaxPriceTick ?? 0);
+    fixture.markets.push({
+      marketGroupAddress: group.address.toLowerCase(),
+      marketId: String(m.marketId),
+      question: group.question || '',
+      claimYes: m.claimStatementYesOrNumeric || undefined,
+      claimNo: m.claimStatementNo || undefined,
+      numeric: !m.claimStatementNo,
+      minTick,
+      maxTick,
+      minPrice: tickToPrice(minTick),
+      maxPrice: tickToPrice(maxTick),
+      endTime: end,
+      settlementPrice: Number(
+        ethers.formatUnits(BigInt(m.settlementPriceD18 || '0'), 18)
+      ),
+      prices,
+    });
+  }
+  logger.info(`Fixture markets: ${fixture.markets.length}`);
+  return fixture;
+}
+
+/**
+ * Fill in forecasts for markets that have none by asking `forecaster`, so the
+ * fixture replays offline afterwards. Forecasting a market after it resolved
+ * can leak the outcome into the forecast; prefer forecasts recorded live.
+ */
+export async function recordForecasts(
+  fixture: BacktestFixture,
+  forecaster: Forecaster
+): Promise<number> {
+  const logger = createLogger('Loom');
+  let recorded = 0;
+  for (const m of fixture.markets) {
+    if (m.forecast) continue;
+    const input = {
+      question: m.question,
+      claimYes: m.claimYes,
+      claimNo: m.claimNo,
+      marketId: m.marketId,
+      marketGroupAddress: m.marketGroupAddress,
+    };
+    try {
+      m.forecast = m.numeric
+        ? await forecaster.predictNumericMarket({
+            ...input,
+            minValue: m.minPrice ?? 0,
+            maxValue: m.maxPrice ?? 1,
+          })
+        : await forecaster.predictMarket(input);
+      recorded += 1;
+    } catch (error) {
+      logger.warn(
+        `No forecast for market ${m.marketGroupAddress}:${m.marketId}: ${(error as Error).message}`
+      );
+    }
+  }
+  return recorded;
+}
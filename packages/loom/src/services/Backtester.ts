@@ -0,0 +1,373 @@
+import { createLogger, nearestUsableTick, priceToTick } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import {
+  BacktestFixture,
+  BacktestMarket,
+  BacktestMarketResult,
+  BacktestReport,
+  LoomConfig,
+  MarketPriceParams,
+  TokenInfo,
+} from '../types';
+import { resolveAmount } from '../utils/amounts';
+import { PositionSizer } from './PositionSizer';
+import { PriceModel } from './PriceModel';
+import { SimulatedPosition } from './SimulatedPosition';
+
+interface MarketState {
+  market: BacktestMarket;
+  params: MarketPriceParams;
+  result: BacktestMarketResult;
+  started: boolean;
+  settled: boolean;
+  position?: SimulatedPosition;
+  lastAction: number; // ms, for the cooldown
+}
+
+type ReplayEvent =
+  | { timestamp: number; kind: 'price'; market: number; price: number }
+  | { timestamp: number; kind: 'settle'; market: number };
+
+/**
+ * Replays resolved markets through the LP strategy offline: every pool price
+ * point of every market in time order, opening a position sized by
+ * PositionSizer around the market's recorded forecast (PriceModel ticks),
+ * rebalancing when the price leaves the range (REBALANCE_ENABLED and the
+ * cooldown) and settling at the settlement price. Forecasts come only from
+ * the fixture, so a run is deterministic.
+ */
+export class Backtester {
+  private logger = createLogger('Loom');
+  private model: PriceModel;
+  private sizer: PositionSizer;
+  private token: TokenInfo;
+
+  constructor(
+    private config: LoomConfig,
+    private fixture: BacktestFixture
+  ) {
+    this.model = new PriceModel(config.lpManagement.confidence);
+    this.sizer = new PositionSizer(
+      config.lpManagement.confidence.minSizeFactor,
+      config.sizing
+    );
+    this.token = {
+      address: 'backtest',
+      symbol: fixture.collateral.symbol,
+      decimals: fixture.collateral.decimals,
+      name: fixture.collateral.name ?? fixture.collateral.symbol,
+    };
+  }
+
+  run(label: string): BacktestReport {
+    const states: MarketState[] = this.fixture.markets.map((market) => ({
+      market,
+      params: marketPriceParams(market),
+      result: {
+        marketId: market.marketId,
+        marketGroupAddress: market.marketGroupAddress,
+        positions: 0,
+        collateral: 0,
+        pnl: 0,
+        fees: 0,
+      },
+      started: false,
+      settled: false,
+      lastAction: 0,
+    }));
+
+    const startBankroll = this.fromUnits(
+      resolveAmount(this.fixture.bankroll, this.token)
+    );
+    let cash = startBankroll;
+    let positions = 0;
+    let rebalances = 0;
+    let locked = 0;
+    let peakCapital = 0;
+    let lockedSeconds = 0;
+
+    const events = replayEvents(this.fixture.markets);
+    const firstTimestamp = events[0]?.timestamp ?? 0;
+    let lastTimestamp = firstTimestamp;
+
+    const close = (state: MarketState, valuationPrice: number) => {
+      const position = state.position!;
+      // Losses stop at the position's collateral
+      const pnl = Math.max(
+        -position.collateral,
+        position.pnlAt(valuationPrice) + position.feesEarned
+      );
+      cash += position.collateral + pnl;
+      locked -= position.collateral;
+      state.result.pnl += pnl;
+      state.result.fees += position.feesEarned;
+      state.position = undefined;
+    };
+
+    for (const event of events) {
+      lockedSeconds += locked * (event.timestamp - lastTimestamp);
+      lastTimestamp = event.timestamp;
+      const state = states[event.market];
+
+      if (event.kind === 'settle') {
+        if (state.position) close(state, state.market.settlementPrice);
+        state.settled = true;
+        continue;
+      }
+
+      state.started = true;
+      state.position?.movePrice(event.price);
+      if (!state.market.forecast) {
+        state.result.skipped = 'no forecast';
+        continue;
+      }
+      if (state.settled) continue;
+
+      const now = event.timestamp * 1000;
+      if (state.position) {
+        if (
+          !this.config.lpManagement.rebalanceEnabled ||
+          state.position.inRange() ||
+          now - state.lastAction < this.config.riskManagement.cooldownPeriod
+        ) {
+          continue;
+        }
+        close(state, event.price);
+        rebalances += 1;
+      }
+
+      const candidates = states.filter(
+        (s) => s.started && !s.settled && !s.position && s.market.forecast
+      ).length;
+      const position = this.open(state, event.price, cash, candidates);
+      if (!position) continue;
+
+      state.position = position;
+      state.lastAction = now;
+      state.result.positions += 1;
+      state.result.collateral += position.collateral;
+      state.result.skipped = undefined;
+      positions += 1;
+      cash -= position.collateral;
+      locked += position.collateral;
+      peakCapital = Math.max(peakCapital, locked);
+    }
+
+    const pnl = states.reduce((sum, s) => sum + s.result.pnl, 0);
+    const fees = states.reduce((sum, s) => sum + s.result.fees, 0);
+    const duration = lastTimestamp - firstTimestamp;
+    const report: BacktestReport = {
+      label,
+      concentrationRange: this.config.lpManagement.concentrationRange,
+      sizingMode: this.config.sizing.mode,
+      startBankroll,
+      endBankroll: cash,
+      pnl,
+      fees,
+      returnPct: startBankroll > 0 ? (pnl / startBankroll) * 100 : 0,
+      positions,
+      rebalances,
+      peakCapital,
+      capitalUtilization:
+        duration > 0 && startBankroll > 0
+          ? lockedSeconds / (startBankroll * duration)
+          : 0,
+      ...calibration(this.fixture.markets),
+      markets: states.map((s) => s.result),
+    };
+    this.logger.debug(
+      `Backtest ${label}: ${positions} positions, ${rebalances} rebalances over ${states.length} markets`
+    );
+    return report;
+  }
+
+  private open(
+    state: MarketState,
+    price: number,
+    cash: number,
+    candidates: number
+  ): SimulatedPosition | undefined {
+    const { market, params } = state;
+    const forecast = market.forecast!;
+    const currentTick = priceToTick(price);
+    const { concentrationRange } = this.config.lpManagement;
+
+    let targetPrice: number;
+    let ticks: { lowerTick: number; upperTick: number };
+    if (params.numeric) {
+      const estimate = forecast.estimate ?? NaN;
+      targetPrice = this.model.valueToPrice(estimate, params);
+      ticks = this.model.intervalToTicks(
+        targetPrice,
+        forecast.lower ?? estimate,
+        forecast.upper ?? estimate,
+        currentTick,
+        concentrationRange,
+        params,
+        forecast.confidence
+      );
+    } else {
+      targetPrice = this.model.likelihoodToPrice(
+        forecast.probabilityYes ?? NaN
+      );
+      ticks = this.model.priceToTicks(
+        targetPrice,
+        currentTick,
+        concentrationRange,
+        params,
+        forecast.confidence
+      );
+    }
+
+    const priceFloor = params.numeric ? params.minPrice : 0;
+    const priceScale =
+      (params.numeric && params.maxPrice - params.minPrice) || 1;
+    const baseAmount = resolveAmount(
+      this.config.lpManagement.defaultCollateralAmount,
+      this.token
+    );
+    const balance = this.toUnits(cash);
+    if (this.config.sizing.mode === 'fixed' && balance < baseAmount) {
+      state.result.skipped ??= 'insufficient collateral';
+      return undefined;
+    }
+    const sizing = this.sizer.size({
+      baseAmount,
+      balance,
+      candidateMarkets: candidates,
+      forecast: (targetPrice - priceFloor) / priceScale,
+      poolPrice: (price - priceFloor) / priceScale,
+      confidence: forecast.confidence,
+      token: this.token,
+      minCollateral: market.minCollateral
+        ? resolveAmount(market.minCollateral, this.token)
+        : undefined,
+    });
+    if (sizing.amount === 0n) {
+      state.result.skipped ??= sizing.reason;
+      return undefined;
+    }
+
+    const position = new SimulatedPosition(
+      ticks.lowerTick,
+      ticks.upperTick,
+      price,
+      this.fromUnits(sizing.amount),
+      params,
+      market.feeRate ?? 0.01,
+      market.lpShare ?? 1
+    );
+    if (position.liquidity === 0) {
+      state.result.skipped ??= 'empty range';
+      return undefined;
+    }
+    return position;
+  }
+
+  private toUnits(amount: number): bigint {
+    return ethers.parseUnits(
+      Math.max(0, amount).toFixed(this.token.decimals),
+      this.token.decimals
+    );
+  }
+
+  private fromUnits(amount: bigint): number {
+    return Number(ethers.formatUnits(amount, this.token.decimals));
+  }
+}
+
+export function marketPriceParams(market: BacktestMarket): MarketPriceParams {
+  const tickSpacing = market.tickSpacing ?? 200;
+  const minPrice = market.minPrice ?? 0;
+  const maxPrice = market.maxPrice ?? 1;
+  return {
+    numeric: Boolean(market.numeric),
+    tickSpacing,
+    minTick:
+      market.minTick ??
+      nearestUsableTick(priceToTick(Math.max(minPrice, 0.0001)), tickSpacing),
+    maxTick:
+      market.maxTick ?? nearestUsableTick(priceToTick(maxPrice), tickSpacing),
+    minPrice,
+    maxPrice,
+  };
+}
+
+// Price points in time order, each market settling after its last point
+function replayEvents(markets: BacktestMarket[]): ReplayEvent[] {
+  const events: ReplayEvent[] = [];
+  markets.forEach((m, market) => {
+    const prices = [...m.prices].sort((a, b) => a.timestamp - b.timestamp);
+    for (const { timestamp, price } of prices) {
+      events.push({ timestamp, kind: 'price', market, price });
+    }
+    const last = prices[prices.length - 1]?.timestamp ?? m.endTime;
+    events.push({
+      timestamp: Math.max(m.endTime, last),
+      kind: 'settle',
+      market,
+    });
+  });
+  // Stable sort keeps market order within a timestamp; prices before settles
+  return events.sort(
+    (a, b) =>
+      a.timestamp - b.timestamp ||
+      (a.kind === b.kind ? 0 : a.kind === 'price' ? -1 : 1)
+  );
+}
+
+/**
+ * Brier score and log loss of binary forecasts against settlement (0..1),
+ * and for numeric markets the mean error as a fraction of the price range
+ * and how often the settlement fell inside the forecast interval.
+ */
+function calibration(
+  markets: BacktestMarket[]
+): Pick<
+  BacktestReport,
+  'brierScore' | 'logLoss' | 'numericError' | 'intervalCoverage'
+> {
+  const binary = markets.filter(
+    (m) => !m.numeric && m.forecast?.probabilityYes !== undefined
+  );
+  const numeric = markets.filter(
+    (m) => m.numeric && m.forecast?.estimate !== undefined
+  );
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, v) => sum + v, 0) / values.length
+      : undefined;
+  const eps = 1e-6;
+
+  return {
+    brierScore: mean(
+      binary.map((m) => (m.forecast!.probabilityYes! - outcome(m)) ** 2)
+    ),
+    logLoss: mean(
+      binary.map((m) => {
+        const p = Math.max(eps, Math.min(1 - eps, m.forecast!.probabilityYes!));
+        const o = outcome(m);
+        return -(o * Math.log(p) + (1 - o) * Math.log(1 - p));
+      })
+    ),
+    numericError: mean(
+      numeric.map((m) => {
+        const range = (m.maxPrice ?? 1) - (m.minPrice ?? 0) || 1;
+        return Math.abs(m.forecast!.estimate! - m.settlementPrice) / range;
+      })
+    ),
+    intervalCoverage: mean(
+      numeric.map((m) => {
+        const { estimate, lower, upper } = m.forecast!;
+        return m.settlementPrice >= (lower ?? estimate!) &&
+          m.settlementPrice <= (upper ?? estimate!)
+          ? 1
+          : 0;
+      })
+    ),
+  };
+}
+
+function outcome(market: BacktestMarket): number {
+  return Math.max(0, Math.min(1, market.settlementPrice));
+}
@@ -0,0 +1,200 @@
+import { createLogger, sqrtPriceX96ToPrice } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import { resolve } from 'path';
+import { EAS_ABI, EAS_CONFIG } from '../abis/placeholders';
+import { LoomConfig, PredictionAttestation } from '../types';
+import { getContract, getProvider } from './RpcProvider';
+
+const SCHEMA_TYPES = EAS_CONFIG.SCHEMA_STRUCTURE.split(',').map((p) =>
+  p.trim()
+);
+
+// PredictionAttestation with its bigints as strings, as saved on disk
+type SavedAttestation = Omit<
+  PredictionAttestation,
+  'marketId' | 'prediction'
+> & { marketId: string; prediction: string };
+
+/**
+ * Polls the EAS contract for `Attested` events on the prediction schema from
+ * whitelisted attesters and decodes them. The latest attestation per market
+ * stays pending until the agent resolves it, and is saved with the last
+ * scanned block in `$DATA_DIR/eas-cursor.json`, so restarts neither miss nor
+ * replay events and an attestation a run could not act on is not lost.
+ */
+export class EASMonitor extends EventEmitter {
+  private provider: ethers.Provider;
+  private eas: ethers.Contract;
+  private cursorPath: string;
+  private lastBlock?: number;
+  private queue = new Map<string, PredictionAttestation>();
+  private logger = createLogger('Loom');
+
+  constructor(private config: LoomConfig) {
+    super();
+    if (config.easMonitoring.targetAttesters.length === 0) {
+      throw new Error(
+        'TARGET_ATTESTER_ADDRESSES must list at least one trusted attester'
+      );
+    }
+    this.provider = getProvider(config);
+    this.eas = getContract(
+      config.easMonitoring.contractAddress,
+      EAS_ABI,
+      this.provider
+    );
+    this.cursorPath = resolve(config.storage.dataDir, 'eas-cursor.json');
+    this.readCursor();
+  }
+
+  /** Unresolved attestations, the latest per market, oldest first. */
+  get pending(): PredictionAttestation[] {
+    return [...this.queue.values()].sort(
+      (a, b) => a.blockNumber - b.blockNumber
+    );
+  }
+
+  /**
+   * Drop `attestation` from the pending queue: acted on, or nothing to do.
+   * A newer attestation for the market that arrived meanwhile stays.
+   */
+  resolve(attestation: PredictionAttestation): void {
+    const key = marketKey(attestation);
+    if (this.queue.get(key)?.uid !== attestation.uid) return;
+    this.queue.delete(key);
+    this.writeCursor();
+  }
+
+  /**
+   * Fetch and decode attestations since the last poll into the pending
+   * queue. Emits `attestation` for each one and returns them oldest first.
+   */
+  async poll(): Promise<PredictionAttestation[]> {
+    const { schemaId, targetAttesters, startBlock, maxBlockRange } =
+      this.config.easMonitoring;
+    const latest = await this.provider.getBlockNumber();
+
+    if (this.lastBlock === undefined) {
+      // First run without a cursor: start at EAS_START_BLOCK or only watch new blocks
+      this.lastBlock = startBlock !== undefined ? startBlock - 1 : latest;
+      this.writeCursor();
+    }
+
+    const attestations: PredictionAttestation[] = [];
+    let from = this.lastBlock + 1;
+    while (from <= latest) {
+      const to = Math.min(latest, from + maxBlockRange - 1);
+      this.logger.debug(`Querying Attested events in blocks ${from}..${to}`);
+
+      const filter = this.eas.filters.Attested(
+        null,
+        targetAttesters,
+        null,
+        schemaId
+      );
+      const events = await this.eas.queryFilter(filter, from, to);
+      for (const event of events) {
+        if (!('args' in event)) continue;
+        const decoded = await this.decodeAttestation(
+          event.args.uid,
+          event.blockNumber
+        );
+        if (decoded) {
+          attestations.push(decoded);
+          // Only the most recent attestation per market matters
+          this.queue.set(marketKey(decoded), decoded);
+          this.emit('attestation', decoded);
+        }
+      }
+
+      // Saved with the queue, so a scanned block is never without its events
+      this.lastBlock = to;
+      this.writeCursor();
+      from = to + 1;
+    }
+
+    return attestations;
+  }
+
+  private async decodeAttestation(
+    uid: string,
+    blockNumber: number
+  ): Promise<PredictionAttestation | null> {
+    try {
+      const attestation = await this.eas.getAttestation(uid);
+      if (attestation.revocationTime !== 0n) {
+        this.logger.debug(`Attestation ${uid} was revoked, ignoring`);
+        return null;
+      }
+      if (
+        attestation.expirationTime !== 0n &&
+        Number(attestation.expirationTime) < Math.floor(Date.now() / 1000)
+      ) {
+        this.logger.debug(`Attestation ${uid} has expired, ignoring`);
+        return null;
+      }
+
+      const [marketAddress, marketId, questionId, prediction, comment] =
+        ethers.AbiCoder.defaultAbiCoder().decode(
+          SCHEMA_TYPES,
+          attestation.data
+        );
+
+      return {
+        uid,
+        attester: String(attestation.attester).toLowerCase(),
+        time: Number(attestation.time),
+        blockNumber,
+        marketAddress,
+        marketId,
+        questionId,
+        prediction,
+        likelihood: sqrtPriceX96ToPrice(prediction),
+        comment,
+      };
+    } catch (error) {
+      this.logger.warn(`Could not decode attestation ${uid}:`, error);
+      return null;
+    }
+  }
+
+  private readCursor(): void {
+    try {
+      const { lastBlock, pending } = JSON.parse(
+        fs.readFileSync(this.cursorPath, 'utf8')
+      ) as { lastBlock?: unknown; pending?: SavedAttestation[] };
+      this.lastBlock = typeof lastBlock === 'number' ? lastBlock : undefined;
+      for (const saved of pending ?? []) {
+        const attestation = {
+          ...saved,
+          marketId: BigInt(saved.marketId),
+          prediction: BigInt(saved.prediction),
+        };
+        this.queue.set(marketKey(attestation), attestation);
+      }
+    } catch {
+      this.lastBlock = undefined;
+    }
+  }
+
+  private writeCursor(): void {
+    fs.mkdirSync(this.config.storage.dataDir, { recursive: true });
+    const pending: SavedAttestation[] = this.pending.map((a) => ({
+      ...a,
+      marketId: a.marketId.toString(),
+      prediction: a.prediction.toString(),
+    }));
+    const tmp = `${this.cursorPath}.tmp`;
+    fs.writeFileSync(
+      tmp,
+      JSON.stringify({ lastBlock: this.lastBlock, pending })
+    );
+    fs.renameSync(tmp, this.cursorPath);
+  }
+}
+
+function marketKey(attestation: PredictionAttestation): string {
+  return `${attestation.marketAddress.toLowerCase()}:${attestation.marketId}`;
+}
@@ -0,0 +1,175 @@
+import { createLogger } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { resolve } from 'path';
+import { EAS_ABI, EAS_CONFIG } from '../abis/placeholders';
+import { LoomConfig } from '../types';
+import { getContract } from './RpcProvider';
+import { AccountSigner } from './SignerPool';
+import { TransactionError, TransactionManager } from './TransactionManager';
+
+const SCHEMA_TYPES = EAS_CONFIG.SCHEMA_STRUCTURE.split(',').map((p) =>
+  p.trim()
+);
+
+interface PublishedAttestation {
+  price: number;
+  prediction: string;
+  uid?: string;
+  txHash?: string;
+  publishedAt: number;
+}
+
+/**
+ * Publishes the bot's own forecasts as EAS attestations on the prediction
+ * schema. A forecast is only re-attested once it moves by at least
+ * easPublishing.minChange (a fraction of the market's price scale) from the
+ * last one published for that market; the last published forecast per
+ * market is kept in
+ * `$DATA_DIR/published-attestations.json`.
+ */
+export class EASPublisher {
+  private eas: ethers.Contract;
+  private transactions: TransactionManager;
+  private statePath: string;
+  private published: Record<string, PublishedAttestation>;
+  private logger = createLogger('Loom');
+
+  constructor(
+    private config: LoomConfig,
+    signer: AccountSigner
+  ) {
+    this.eas = getContract(
+      config.easMonitoring.contractAddress,
+      EAS_ABI,
+      signer
+    );
+    this.transactions = TransactionManager.forSigner(signer, config);
+    this.statePath = resolve(
+      config.storage.dataDir,
+      'published-attestations.json'
+    );
+    this.published = this.readState();
+  }
+
+  /**
+   * Attest a forecast for a market. Never throws: publishing is best effort
+   * and must not block liquidity management.
+   */
+  async publish(params: {
+    marketAddress: string;
+    marketId: bigint;
+    price: number;
+    sqrtPriceX96: bigint;
+    comment: string;
+    // Width of the market's price range; 1 for binary markets
+    priceScale?: number;
+  }): Promise<string | undefined> {
+    const key = `${params.marketAddress.toLowerCase()}:${params.marketId}`;
+    const previous = this.published[key];
+    if (
+      previous &&
+      Math.abs(previous.price - params.price) / (params.priceScale || 1) <
+        this.config.easPublishing.minChange
+    ) {
+      this.logger.debug(
+        `Market ${params.marketId}: forecast ${params.price.toFixed(4)} already attested (${previous.price.toFixed(4)}), skipping`
+      );
+      return undefined;
+    }
+
+    // Sapience identifies markets by address and id; questionId is unused
+    const data = ethers.AbiCoder.defaultAbiCoder().encode(SCHEMA_TYPES, [
+      params.marketAddress,
+      params.marketId,
+      ethers.ZeroHash,
+      params.sqrtPriceX96,
+      params.comment,
+    ]);
+    const request = {
+      schema: this.config.easMonitoring.schemaId,
+      data: {
+        recipient: ethers.ZeroAddress,
+        expirationTime: 0,
+        revocable: true,
+        refUID: ethers.ZeroHash,
+        data,
+        value: 0,
+      },
+    };
+
+    if (this.config.easPublishing.dryRun) {
+      this.logger.info(
+        `DRY RUN: would attest market ${params.marketId} price=${params.price.toFixed(4)} prediction=${params.sqrtPriceX96.toString()}`
+      );
+      return undefined;
+    }
+
+    try {
+      this.logger.info(
+        `Attesting forecast for market ${params.marketId}: price=${params.price.toFixed(4)}`
+      );
+      const receipt = await this.transactions.send(
+        this.eas,
+        'attest',
+        [request],
+        `attest forecast for market ${params.marketId}`
+      );
+      const uid = this.extractUid(receipt);
+      this.published[key] = {
+        price: params.price,
+        prediction: params.sqrtPriceX96.toString(),
+        uid,
+        txHash: receipt.hash,
+        publishedAt: Date.now(),
+      };
+      this.writeState();
+      this.logger.info(`Attestation confirmed: uid=${uid ?? 'unknown'}`);
+      return uid;
+    } catch (error) {
+      if (error instanceof TransactionError && error.reason === 'gas-budget') {
+        this.logger.info(
+          `Market ${params.marketId}: not attesting, ${error.message}`
+        );
+        return undefined;
+      }
+      this.logger.warn(
+        `Could not attest forecast for market ${params.marketId}:`,
+        error
+      );
+      return undefined;
+    }
+  }
+
+  private extractUid(
+    receipt: ethers.TransactionReceipt | null
+  ): string | undefined {
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = this.eas.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === 'Attested') return parsed.args.uid;
+      } catch {
+        // Not an EAS log
+      }
+    }
+    return undefined;
+  }
+
+  private readState(): Record<string, PublishedAttestation> {
+    try {
+      return JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private writeState(): void {
+    fs.mkdirSync(this.config.storage.dataDir, { recursive: true });
+    const tmp = `${this.statePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.published, null, 2));
+    fs.renameSync(tmp, this.statePath);
+  }
+}
@@ -1,57 +1,121 @@
-import { createLogger } from '@ts-bots/shared';
+import {
+  createLogger,
+  getAmountsForLiquidity,
+  getSqrtRatioAtTick,
+  sqrtPriceX96ToPrice,
+} from '@ts-bots/shared';
 import { ethers } from 'ethers';
 import { EventEmitter } from 'events';
-import { ERC20_ABI, SAPIENCE_ABI } from '../abis/placeholders';
-import { LoomConfig, LPPosition, MarketData, PriceRange } from '../types';
+import {
+  ERC20_ABI,
+  SAPIENCE_ABI,
+  UNISWAP_POSITION_MANAGER_ABI,
+} from '../abis/placeholders';
+import {
+  IndexedPosition,
+  LoomConfig,
+  LPPosition,
+  MarketData,
+  MarketPriceParams,
+  PriceRange,
+} from '../types';
+import { decodeSapienceError } from '../utils/errors';
+import { PositionIndex } from './PositionIndex';
+import { PositionStore } from './PositionStore';
+import { getContract } from './RpcProvider';
+import { AccountSigner, SignerPool } from './SignerPool';
+import { TokenRegistry } from './TokenRegistry';
+import { TransactionManager } from './TransactionManager';
+
+export interface LPManagerDeps {
+  store?: PositionStore;
+  index?: PositionIndex;
+  // Defaults to the signer's shared TransactionManager
+  transactions?: TransactionManager;
+}
 
 export class LPManager extends EventEmitter {
   private config: LoomConfig;
-  private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private provider: ethers.Provider;
   private sapience: ethers.Contract;
-  private collateralTokenSymbol: string = 'TOKEN'; // Cache for token symbol
   private logger = createLogger('Loom');
-
-  constructor(config: LoomConfig, sapienceContractAddress: string) {
+  private store?: PositionStore;
+  private index?: PositionIndex;
+  private tickSpacing?: number;
+  private collateralAddress?: string;
+  readonly tokens: TokenRegistry;
+  readonly transactions: TransactionManager;
+
+  /** `signer` must be connected to a provider, which is used for reads. */
+  constructor(
+    config: LoomConfig,
+    sapienceContractAddress: string,
+    readonly signer: AccountSigner,
+    deps: LPManagerDeps = {}
+  ) {
     super();
     this.config = config;
-    this.provider = new ethers.JsonRpcProvider(config.blockchain.rpcUrl);
-    this.wallet = new ethers.Wallet(
-      config.blockchain.privateKey,
-      this.provider
-    );
+    this.store = deps.store;
+    this.index = deps.index;
+    if (!signer.provider) {
+      throw new Error(`Signer ${signer.address} has no provider`);
+    }
+    this.provider = signer.provider;
+    this.tokens = new TokenRegistry(this.provider);
+    this.transactions =
+      deps.transactions ?? TransactionManager.forSigner(signer, config);
 
-    this.sapience = new ethers.Contract(
+    this.sapience = getContract(
       sapienceContractAddress,
       SAPIENCE_ABI.abi,
-      this.wallet
+      signer
     );
   }
 
-  private async getCollateralTokenSymbol(
-    collateralAddress: string
-  ): Promise<string> {
-    try {
-      // Return cached symbol if we already fetched it for this address
-      if (this.collateralTokenSymbol !== 'TOKEN') {
-        return this.collateralTokenSymbol;
-      }
+  /** The account this manager acts for. */
+  get address(): string {
+    return this.signer.address;
+  }
 
-      const tokenContract = new ethers.Contract(
-        collateralAddress,
-        ERC20_ABI,
-        this.provider
-      );
-      const symbol = await tokenContract.symbol();
-      this.collateralTokenSymbol = symbol;
-      this.logger.debug(`Collateral token symbol: ${symbol}`);
-      return symbol;
-    } catch (error) {
-      this.logger.warn(
-        `Could not fetch token symbol for ${collateralAddress}, using 'TOKEN'`
+  get marketGroupAddress(): string {
+    return String(this.sapience.target).toLowerCase();
+  }
+
+  /** The market group's collateral asset, read once per instance. */
+  async getCollateralAddress(): Promise<string> {
+    if (this.collateralAddress === undefined) {
+      const { collateralAsset } = await this.sapience.getMarketGroup();
+      this.collateralAddress = String(collateralAsset);
+    }
+    return this.collateralAddress;
+  }
+
+  /** Tick spacing of the market group's pools, read once per instance. */
+  async getTickSpacing(): Promise<number> {
+    if (this.tickSpacing === undefined) {
+      this.tickSpacing = Number(
+        await this.sapience.getMarketGroupTickSpacing()
       );
-      return 'TOKEN';
+      this.logger.debug(`Market group tick spacing: ${this.tickSpacing}`);
     }
+    return this.tickSpacing;
+  }
+
+  /**
+   * Tick spacing, tick bounds and price bounds for a market. Markets without
+   * a NO statement are numeric: claimStatementYesOrNumeric holds the claim.
+   */
+  async getMarketPriceParams(
+    marketData: MarketData
+  ): Promise<MarketPriceParams> {
+    return {
+      numeric: ethers.dataLength(marketData.claimStatementNo || '0x') === 0,
+      tickSpacing: await this.getTickSpacing(),
+      minTick: Number(marketData.baseAssetMinPriceTick),
+      maxTick: Number(marketData.baseAssetMaxPriceTick),
+      minPrice: Number(ethers.formatUnits(marketData.minPriceD18, 18)),
+      maxPrice: Number(ethers.formatUnits(marketData.maxPriceD18, 18)),
+    };
   }
 
   async getMarketData(marketId: bigint): Promise<MarketData> {
@@ -76,9 +140,7 @@ export class LPManager extends EventEmitter {
       });
 
       // Get collateral address from market group
-      this.logger.debug(`Calling sapience.getMarketGroup()`);
-      const { collateralAsset: collateralAddress } =
-        await this.sapience.getMarketGroup();
+      const collateralAddress = await this.getCollateralAddress();
       this.logger.debug(
         `Market group collateral address: ${collateralAddress}`
       );
@@ -88,7 +150,7 @@ export class LPManager extends EventEmitter {
       const currentSqrtPriceX96 = await this.sapience.getSqrtPriceX96(marketId);
 
       // Convert sqrtPriceX96 to readable price for logging
-      const readablePrice = this.sqrtPriceToPrice(currentSqrtPriceX96);
+      const readablePrice = sqrtPriceX96ToPrice(currentSqrtPriceX96);
       this.logger.info(
         `Market ${marketId}: price=${readablePrice.toFixed(6)} (sqrtPriceX96=${currentSqrtPriceX96.toString()})`
       );
@@ -118,46 +180,68 @@ export class LPManager extends EventEmitter {
       );
       return marketDataResult;
     } catch (error) {
-      this.logger.error(
-        `Error getting market data for marketId ${marketId}:`,
+      throw this.handleError(
+        `Error getting market data for marketId ${marketId}`,
         error
       );
-      throw error;
     }
   }
 
   async getCollateralBalance(collateralAddress: string): Promise<bigint> {
-    const token = new ethers.Contract(
-      collateralAddress,
-      ERC20_ABI,
-      this.provider
-    );
-    const bal = await token.balanceOf(this.wallet.address);
+    const token = getContract(collateralAddress, ERC20_ABI, this.provider);
+    const bal = await token.balanceOf(this.address);
     return typeof bal === 'bigint' ? bal : BigInt(bal.toString());
   }
 
+  /**
+   * The market group's minTradeSize. getMarketGroup does not return it, so it
+   * is read from the MarketGroupInitialized event; undefined when the RPC
+   * cannot serve a full-history log query.
+   */
+  async getMinTradeSize(): Promise<bigint | undefined> {
+    try {
+      const [event] = await this.sapience.queryFilter(
+        this.sapience.filters.MarketGroupInitialized()
+      );
+      if (event && 'args' in event) return BigInt(event.args.minTradeSize);
+    } catch (error) {
+      this.logger.debug(
+        `Could not read minTradeSize for ${this.marketGroupAddress}`
+      );
+    }
+    return undefined;
+  }
+
+  async getPositionPnl(tokenId: number): Promise<bigint> {
+    try {
+      return BigInt(await this.sapience.getPositionPnl(tokenId));
+    } catch (error) {
+      throw decodeSapienceError(error) ?? error;
+    }
+  }
+
+  async getPositionCollateralValue(tokenId: number): Promise<bigint> {
+    try {
+      return BigInt(await this.sapience.getPositionCollateralValue(tokenId));
+    } catch (error) {
+      throw decodeSapienceError(error) ?? error;
+    }
+  }
+
   async createLPPosition(
     marketId: bigint,
     lowerTick: number,
     upperTick: number,
     targetPrice: number,
-    collateralAmount: string
+    collateralAmount: string,
+    reasoning?: string
   ): Promise<LPPosition> {
     try {
       this.logger.info(`Creating LP position for market ${marketId}`);
-      this.logger.debug(
-        `Params: ticks ${lowerTick}-${upperTick}, targetPrice ${targetPrice}, collateral ${collateralAmount} wei`
-      );
-
       this.logger.debug(`Step 1: Getting market data...`);
       const marketData = await this.getMarketData(marketId);
-
-      // Get token symbol for better logging
-      const tokenSymbol = await this.getCollateralTokenSymbol(
-        marketData.collateralAddress
-      );
       this.logger.debug(
-        `Collateral Amount (${tokenSymbol}): ${this.weiToEth(collateralAmount)}`
+        `Params: ticks ${lowerTick}-${upperTick}, targetPrice ${targetPrice}, collateral ${await this.tokens.format(marketData.collateralAddress, collateralAmount)}`
       );
 
       this.logger.debug(`Step 2: Clamping ticks to market bounds...`);
@@ -189,8 +273,8 @@ export class LPManager extends EventEmitter {
       }
 
       this.logger.debug(`Step 3: Converting ticks to sqrt prices...`);
-      const lowerSqrtPriceX96 = this.tickToSqrtPriceX96(clampedLowerTick);
-      const upperSqrtPriceX96 = this.tickToSqrtPriceX96(clampedUpperTick);
+      const lowerSqrtPriceX96 = getSqrtRatioAtTick(clampedLowerTick);
+      const upperSqrtPriceX96 = getSqrtRatioAtTick(clampedUpperTick);
 
       this.logger.debug(
         `Sqrt prices: lower ${lowerSqrtPriceX96.toString()}, upper ${upperSqrtPriceX96.toString()}, current ${marketData.currentSqrtPriceX96.toString()}`
@@ -220,7 +304,7 @@ export class LPManager extends EventEmitter {
       );
 
       this.logger.debug(`Step 6: Preparing liquidity position parameters...`);
-      const deadline = Math.floor(Date.now() / 1000) + 3600;
+      const deadline = this.getDeadline();
 
       // Create liquidity position parameters
       const liquidityParams = {
@@ -230,21 +314,33 @@ export class LPManager extends EventEmitter {
         collateralAmount,
         lowerTick: clampedLowerTick,
         upperTick: clampedUpperTick,
-        minAmountBaseToken: 0, // 0 slippage as specified
-        minAmountQuoteToken: 0, // 0 slippage as specified
+        minAmountBaseToken: this.applySlippage(amount0),
+        minAmountQuoteToken: this.applySlippage(amount1),
         deadline,
       };
 
       this.logger.debug(
-        `Final params: marketId=${liquidityParams.marketId}, amount0=${liquidityParams.amountBaseToken.toString()}, amount1=${liquidityParams.amountQuoteToken.toString()}, lower=${liquidityParams.lowerTick}, upper=${liquidityParams.upperTick}, deadline=${new Date(deadline * 1000).toISOString()}`
+        `Final params: marketId=${liquidityParams.marketId}, amount0=${liquidityParams.amountBaseToken.toString()} (min ${liquidityParams.minAmountBaseToken.toString()}), amount1=${liquidityParams.amountQuoteToken.toString()} (min ${liquidityParams.minAmountQuoteToken.toString()}), lower=${liquidityParams.lowerTick}, upper=${liquidityParams.upperTick}, deadline=${new Date(deadline * 1000).toISOString()}`
       );
 
-      this.logger.info(`Submitting createLiquidityPosition transaction...`);
-      const tx = await this.sapience.createLiquidityPosition(liquidityParams);
-      this.logger.info(`Transaction submitted: ${tx.hash}`);
+      if (this.config.execution.simulate) {
+        this.logger.debug(`Step 7: Simulating createLiquidityPosition...`);
+        await this.checkTokensFromLiquidity(
+          liquidity,
+          marketData.currentSqrtPriceX96,
+          clampedLowerTick,
+          clampedUpperTick
+        );
+        await this.sapience.createLiquidityPosition.staticCall(liquidityParams);
+      }
 
-      this.logger.debug(`Waiting for transaction confirmation...`);
-      const receipt = await tx.wait();
+      this.logger.info(`Submitting createLiquidityPosition transaction...`);
+      const receipt = await this.transactions.send(
+        this.sapience,
+        'createLiquidityPosition',
+        [liquidityParams],
+        `create LP position in market ${marketId}`
+      );
       this.logger.info(
         `Transaction confirmed: block=${receipt.blockNumber}, gasUsed=${receipt.gasUsed.toString()}`
       );
@@ -267,6 +363,37 @@ export class LPManager extends EventEmitter {
         isActive: true,
       };
 
+      this.store?.upsert({
+        tokenId,
+        marketGroupAddress: this.marketGroupAddress,
+        owner: this.address.toLowerCase(),
+        marketId: position.marketId,
+        lowerTick: clampedLowerTick,
+        upperTick: clampedUpperTick,
+        liquidity: position.liquidity,
+        targetPrice,
+        reasoning,
+        collateralAmount,
+        depositedCollateral: collateralAmount,
+        collateralAddress: marketData.collateralAddress.toLowerCase(),
+        createTxHash: receipt.hash,
+        createdAt: position.createdAt,
+        lastUpdated: position.lastUpdated,
+        isActive: true,
+      });
+
+      await this.index?.add({
+        tokenId,
+        marketGroupAddress: this.marketGroupAddress,
+        owner: this.address.toLowerCase(),
+        marketId: position.marketId,
+        kind: 1,
+        isSettled: false,
+        depositedCollateralAmount: BigInt(collateralAmount),
+        vQuoteAmount: 0n,
+        vBaseAmount: 0n,
+      });
+
       this.logger.debug(
         `Position created: id=${position.id}, tokenId=${position.tokenId}, range=${position.lowerTick}-${position.upperTick}, liquidity=${position.liquidity}`
       );
@@ -276,21 +403,10 @@ export class LPManager extends EventEmitter {
 
       return position;
     } catch (error) {
-      this.logger.error(
-        `Error creating LP position for market ${marketId}:`,
+      throw this.handleError(
+        `Error creating LP position for market ${marketId}`,
         error
       );
-      throw error;
-    }
-  }
-
-  private weiToEth(weiAmount: string): string {
-    try {
-      const wei = BigInt(weiAmount);
-      const eth = Number(wei) / 1e18;
-      return eth.toFixed(6);
-    } catch {
-      return 'Invalid';
     }
   }
 
@@ -329,139 +445,339 @@ export class LPManager extends EventEmitter {
         return;
       }
 
-      // Close liquidity position using Sapience contract
+      // Quote the close with a static call (which also catches reverts before
+      // spending gas), then require at least the quoted amounts less slippage
       const closeParams = {
         positionId: position.tokenId,
-        amount0Min: 0, // 0 slippage as specified
-        amount1Min: 0, // 0 slippage as specified
-        tradeSlippage: 0, // 0 slippage as specified
-        deadline: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
+        amount0Min: 0n,
+        amount1Min: 0n,
+        tradeSlippage: this.tradeSlippageD18(),
+        deadline: this.getDeadline(),
       };
+      const [expectedAmount0, expectedAmount1, expectedCollateral] =
+        await this.sapience.closeLiquidityPosition.staticCall(closeParams);
+      closeParams.amount0Min = this.applySlippage(expectedAmount0);
+      closeParams.amount1Min = this.applySlippage(expectedAmount1);
+      this.logger.debug(
+        `Close quote: amount0=${expectedAmount0.toString()} (min ${closeParams.amount0Min.toString()}), amount1=${expectedAmount1.toString()} (min ${closeParams.amount1Min.toString()}), collateral=${expectedCollateral.toString()}`
+      );
 
-      const tx = await this.sapience.closeLiquidityPosition(closeParams);
-      await tx.wait();
+      const receipt = await this.transactions.send(
+        this.sapience,
+        'closeLiquidityPosition',
+        [closeParams],
+        `close LP position ${position.tokenId}`
+      );
 
       position.isActive = false;
       position.lastUpdated = Date.now();
+      this.store?.update(this.marketGroupAddress, position.tokenId, {
+        isActive: false,
+        closeTxHash: receipt.hash,
+        closedAt: position.lastUpdated,
+      });
+      await this.index?.remove(this.marketGroupAddress, position.tokenId);
 
       this.emit('positionClosed', position);
       this.logger.info(`LP position ${position.id} closed successfully`);
     } catch (error) {
-      this.logger.error('Error closing LP position:', error);
-      throw error;
+      throw this.handleError(`Error closing LP position ${position.id}`, error);
     }
   }
 
-  async getCurrentLPPosition(marketId: bigint): Promise<LPPosition | null> {
+  /** Current Uniswap liquidity behind an LP position. */
+  async getPositionLiquidity(tokenId: number): Promise<bigint> {
+    const positionData = await this.sapience.getPosition(tokenId);
+    const { marketParams } = await this.sapience.getMarketGroup();
+    const positionManager = getContract(
+      marketParams.uniswapPositionManager,
+      UNISWAP_POSITION_MANAGER_ABI,
+      this.provider
+    );
+    const { liquidity } = await positionManager.positions(
+      positionData.uniswapPositionId
+    );
+    return BigInt(liquidity);
+  }
+
+  /** Collateral a position of either kind holds on-chain now. */
+  async getDepositedCollateral(tokenId: number): Promise<bigint> {
+    const { depositedCollateralAmount } =
+      await this.sapience.getPosition(tokenId);
+    return BigInt(depositedCollateralAmount);
+  }
+
+  /**
+   * Remove `fraction` (0..1) of an LP position's liquidity, keeping the rest
+   * deployed. Minimum amounts are a static-call quote less slippage, as for
+   * closes.
+   */
+  async decreaseLPPosition(
+    position: LPPosition,
+    fraction: number
+  ): Promise<void> {
     try {
+      if (!position.tokenId) {
+        throw new Error('Position token ID is required to decrease position');
+      }
+      const current = await this.getPositionLiquidity(position.tokenId);
+      const liquidity =
+        (current * BigInt(Math.round(Math.min(1, fraction) * 10_000))) /
+        10_000n;
+      if (liquidity === 0n) {
+        this.logger.debug(`Position ${position.tokenId}: nothing to decrease`);
+        return;
+      }
+      this.logger.info(
+        `Decreasing LP position ${position.id} by ${(fraction * 100).toFixed(0)}% (${liquidity.toString()} of ${current.toString()} liquidity)`
+      );
+
+      const params = {
+        positionId: position.tokenId,
+        liquidity,
+        minBaseAmount: 0n,
+        minQuoteAmount: 0n,
+        deadline: this.getDeadline(),
+      };
+      const [expectedAmount0, expectedAmount1, expectedCollateral] =
+        await this.sapience.decreaseLiquidityPosition.staticCall(params);
+      params.minBaseAmount = this.applySlippage(expectedAmount0);
+      params.minQuoteAmount = this.applySlippage(expectedAmount1);
       this.logger.debug(
-        `Checking for existing LP position in market ${marketId}...`
+        `Decrease quote: amount0=${expectedAmount0.toString()} (min ${params.minBaseAmount.toString()}), amount1=${expectedAmount1.toString()} (min ${params.minQuoteAmount.toString()}), collateral=${expectedCollateral.toString()}`
       );
-      this.logger.debug(`Wallet address: ${this.wallet.address}`);
 
-      // Check balance of positions for this wallet
-      this.logger.debug(`Calling balanceOf(${this.wallet.address})`);
-      const positionCount = await this.sapience.balanceOf(this.wallet.address);
+      const before = await this.getDepositedCollateral(position.tokenId);
+      await this.transactions.send(
+        this.sapience,
+        'decreaseLiquidityPosition',
+        [params],
+        `decrease LP position ${position.tokenId}`
+      );
 
-      this.logger.debug(
-        `Total positions owned by wallet: ${positionCount.toString()}`
+      // The released collateral went back to the wallet; record what is left
+      // so caps and rebalance sizing do not count it, and what came back for
+      // settlement PnL
+      const after = await this.getDepositedCollateral(position.tokenId);
+      position.liquidity = (current - liquidity).toString();
+      position.lastUpdated = Date.now();
+      this.store?.recordCollateral(
+        this.marketGroupAddress,
+        position.tokenId,
+        before,
+        after,
+        { liquidity: position.liquidity }
+      );
+      this.emit('positionDecreased', position);
+      this.logger.info(`LP position ${position.id} decreased`);
+    } catch (error) {
+      throw this.handleError(
+        `Error decreasing LP position ${position.id}`,
+        error
       );
+    }
+  }
 
-      if (positionCount === 0n) {
-        this.logger.debug(`No positions found for this wallet`);
-        return null;
+  /**
+   * Settle a position in a resolved market and record the collateral it
+   * returned. Realized PnL is all collateral withdrawn, by earlier decreases
+   * and this settlement, less all collateral deposited; positions missing
+   * from the store are added so their outcome is kept too. Returns what this
+   * settlement withdrew.
+   */
+  async settlePosition(
+    position: IndexedPosition
+  ): Promise<{ withdrawnCollateral: bigint; realizedPnl: bigint }> {
+    try {
+      this.logger.info(
+        `Settling position ${position.tokenId} in market ${position.marketId}`
+      );
+      if (this.config.execution.simulate) {
+        await this.sapience.settlePosition.staticCall(position.tokenId);
       }
 
+      const receipt = await this.transactions.send(
+        this.sapience,
+        'settlePosition',
+        [position.tokenId],
+        `settle position ${position.tokenId}`
+      );
+
+      let withdrawnCollateral = 0n;
+      for (const log of receipt.logs) {
+        try {
+          const parsed = this.sapience.interface.parseLog({
+            topics: log.topics as string[],
+            data: log.data,
+          });
+          if (parsed?.name === 'PositionSettled') {
+            withdrawnCollateral = BigInt(parsed.args.withdrawnCollateral);
+          }
+        } catch {
+          // Not a Sapience event
+        }
+      }
+
+      const stored = this.store?.get(this.marketGroupAddress, position.tokenId);
+      const deposited = stored
+        ? BigInt(stored.depositedCollateral ?? stored.collateralAmount)
+        : position.depositedCollateralAmount;
+      const withdrawn =
+        BigInt(stored?.withdrawnCollateral ?? '0') + withdrawnCollateral;
+      const realizedPnl = withdrawn - deposited;
+      const collateralAddress = await this.getCollateralAddress();
+      const now = Date.now();
+      const outcome = {
+        isActive: false,
+        settleTxHash: receipt.hash,
+        withdrawnCollateral: withdrawn.toString(),
+        realizedPnl: realizedPnl.toString(),
+        closedAt: now,
+      };
+      if (stored) {
+        this.store?.update(this.marketGroupAddress, position.tokenId, outcome);
+      } else {
+        this.store?.upsert({
+          tokenId: position.tokenId,
+          kind: position.kind === 2 ? 'trader' : 'lp',
+          marketGroupAddress: this.marketGroupAddress,
+          owner: this.address.toLowerCase(),
+          marketId: position.marketId,
+          lowerTick: 0,
+          upperTick: 0,
+          liquidity: '0',
+          targetPrice: 0,
+          collateralAmount: deposited.toString(),
+          depositedCollateral: deposited.toString(),
+          collateralAddress: collateralAddress.toLowerCase(),
+          createdAt: now,
+          lastUpdated: now,
+          ...outcome,
+        });
+      }
+      await this.index?.remove(this.marketGroupAddress, position.tokenId);
+
+      this.emit('positionSettled', {
+        ...position,
+        withdrawnCollateral,
+        realizedPnl,
+      });
+      this.logger.info(
+        `Position ${position.tokenId} settled: withdrew ${await this.tokens.format(collateralAddress, withdrawnCollateral)}, realized pnl ${await this.tokens.format(collateralAddress, realizedPnl)}`
+      );
+      return { withdrawnCollateral, realizedPnl };
+    } catch (error) {
+      throw this.handleError(
+        `Error settling position ${position.tokenId}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Scan every position NFT the wallet holds in this market group. This costs
+   * one balanceOf plus two calls per position, so callers that look up more
+   * than one market should go through a PositionIndex instead.
+   */
+  async getWalletPositions(): Promise<IndexedPosition[]> {
+    const marketGroupAddress = this.marketGroupAddress;
+    this.logger.debug(
+      `Scanning positions of ${this.address} in ${marketGroupAddress}...`
+    );
+
+    const positionCount = await this.sapience.balanceOf(this.address);
+    this.logger.debug(
+      `Total positions owned by wallet: ${positionCount.toString()}`
+    );
+
+    const positions: IndexedPosition[] = [];
+    for (let i = 0; i < Number(positionCount); i++) {
+      const tokenId = await this.sapience.tokenOfOwnerByIndex(this.address, i);
+      const positionData = await this.sapience.getPosition(tokenId);
+      const [
+        ,
+        kind,
+        positionMarketId,
+        depositedCollateralAmount,
+        ,
+        ,
+        vQuoteAmount,
+        vBaseAmount,
+        ,
+        isSettled,
+      ] = positionData;
+
+      const position: IndexedPosition = {
+        tokenId: Number(tokenId),
+        marketGroupAddress,
+        owner: this.address.toLowerCase(),
+        marketId: positionMarketId.toString(),
+        kind: Number(kind),
+        isSettled: Boolean(isSettled),
+        depositedCollateralAmount: BigInt(depositedCollateralAmount),
+        vQuoteAmount: BigInt(vQuoteAmount),
+        vBaseAmount: BigInt(vBaseAmount),
+      };
+      this.logger.debug(
+        `Position ${position.tokenId}: kind=${position.kind} (1=LP, 2=Trader), market=${position.marketId}, settled=${position.isSettled}, collateral=${position.depositedCollateralAmount.toString()}`
+      );
+      positions.push(position);
+    }
+
+    return positions;
+  }
+
+  async getCurrentLPPosition(marketId: bigint): Promise<LPPosition | null> {
+    try {
       this.logger.debug(
-        `Iterating through ${Number(positionCount)} positions...`
+        `Checking for existing LP position in market ${marketId}...`
       );
 
-      // Iterate through positions to find active LP position for this market
-      for (let i = 0; i < Number(positionCount); i++) {
-        this.logger.debug(`Checking position index ${i}...`);
+      const positions = this.index
+        ? await this.index.getMarketPositions(this, marketId)
+        : (await this.getWalletPositions()).filter(
+            (p) => p.marketId === marketId.toString()
+          );
+      const match = positions.find((p) => p.kind === 1 && !p.isSettled);
 
-        const tokenId = await this.sapience.tokenOfOwnerByIndex(
-          this.wallet.address,
-          i
-        );
-        this.logger.debug(`Token ID at index ${i}: ${tokenId.toString()}`);
-
-        const positionData = await this.sapience.getPosition(tokenId);
-        const [
-          id,
-          kind,
-          positionMarketId,
-          depositedCollateralAmount,
-          borrowedVQuote,
-          borrowedVBase,
-          vQuoteAmount,
-          vBaseAmount,
-          uniswapPositionId,
-          isSettled,
-        ] = positionData;
-
-        this.logger.debug(`Position ${tokenId.toString()} details:`);
-        this.logger.debug(`ID: ${id.toString()}`);
-        const kindNum =
-          typeof kind === 'bigint' ? Number(kind) : (kind as number);
-        this.logger.debug(`Kind: ${kindNum} (1=LP, 2=Trader)`);
-        const positionMarketIdStr = positionMarketId.toString();
-        const targetMarketIdStr = marketId.toString();
-        const sameMarket = positionMarketIdStr === targetMarketIdStr;
-        this.logger.debug(`Market ID: ${positionMarketIdStr}`);
-        this.logger.debug(`Target Market ID: ${targetMarketIdStr}`);
+      if (!match) {
+        this.logger.info(`No active LP position found for market ${marketId}`);
+        return null;
+      }
+
+      this.logger.info(`Found matching active LP position`);
+
+      // Range, target and timestamps come from the local store; positions
+      // opened outside this bot have none, so they are left as 0 (unknown).
+      const stored = this.store?.get(this.marketGroupAddress, match.tokenId);
+      const position: LPPosition = {
+        id: `position-${match.tokenId}`,
+        marketId: marketId.toString(),
+        tokenId: match.tokenId,
+        lowerTick: stored?.lowerTick ?? 0,
+        upperTick: stored?.upperTick ?? 0,
+        liquidity: stored?.liquidity ?? match.vQuoteAmount.toString(),
+        targetPrice: stored?.targetPrice ?? 0,
+        createdAt: stored?.createdAt ?? 0,
+        lastUpdated: stored?.lastUpdated ?? 0,
+        isActive: true,
+      };
+      if (!stored) {
         this.logger.debug(
-          `Deposited Collateral: ${depositedCollateralAmount.toString()}`
+          `Position ${match.tokenId} not in local store; range unknown`
         );
-        this.logger.debug(`Is Settled: ${isSettled}`);
-        this.logger.debug(`vQuote Amount: ${vQuoteAmount.toString()}`);
-        this.logger.debug(`vBase Amount: ${vBaseAmount.toString()}`);
-
-        // Check if this is an active LP position for the specified market
-        if (kindNum === 1 && !isSettled && sameMarket) {
-          this.logger.info(`Found matching active LP position`);
-
-          // This is our active LP position for this market
-          const position: LPPosition = {
-            id: `position-${tokenId}`,
-            marketId: marketId.toString(),
-            tokenId: Number(tokenId),
-            lowerTick: 0, // Would need to get from Uniswap position if needed
-            upperTick: 0, // Would need to get from Uniswap position if needed
-            liquidity: vQuoteAmount.toString(),
-            targetPrice: 0, // Would need to calculate from current price
-            createdAt: Date.now(), // Placeholder
-            lastUpdated: Date.now(),
-            isActive: true,
-          };
-
-          this.logger.debug(
-            `Returning existing position id=${position.id}, tokenId=${position.tokenId}, marketId=${position.marketId}, liquidity=${position.liquidity}`
-          );
-
-          return position;
-        } else {
-          this.logger.debug(
-            `Position ${tokenId.toString()} doesn't match criteria:`
-          );
-          if (kindNum !== 1)
-            this.logger.debug(`- Wrong kind: ${kindNum} (expected 1 for LP)`);
-          if (isSettled) this.logger.debug(`- Position is settled`);
-          if (!sameMarket)
-            this.logger.debug(
-              `- Wrong market: ${positionMarketIdStr} (expected ${targetMarketIdStr})`
-            );
-        }
       }
 
-      this.logger.info(`No active LP position found for market ${marketId}`);
-      return null;
+      this.logger.debug(
+        `Returning existing position id=${position.id}, tokenId=${position.tokenId}, marketId=${position.marketId}, liquidity=${position.liquidity}`
+      );
+
+      return position;
     } catch (error) {
-      this.logger.error(
-        `Error getting current LP position for market ${marketId}:`,
+      throw this.handleError(
+        `Error getting current LP position for market ${marketId}`,
         error
       );
-      throw error;
     }
   }
 
@@ -470,7 +786,8 @@ export class LPManager extends EventEmitter {
     newLowerTick: number,
     newUpperTick: number,
     newTargetPrice: number,
-    collateralAmount: string
+    collateralAmount: string,
+    reasoning?: string
   ): Promise<LPPosition> {
     this.logger.info(`Adjusting LP position ${oldPosition.id}`);
 
@@ -483,15 +800,145 @@ export class LPManager extends EventEmitter {
       newLowerTick,
       newUpperTick,
       newTargetPrice,
-      collateralAmount
+      collateralAmount,
+      reasoning
     );
   }
 
+  /**
+   * Reconcile every market group that has active positions in the store.
+   */
+  static async reconcileStore(
+    config: LoomConfig,
+    store: PositionStore,
+    signers: SignerPool
+  ): Promise<void> {
+    const logger = createLogger('Loom');
+    // Records from before signer pools belong to the primary account;
+    // upsert keeps lastUpdated, which drives the cooldown
+    const primary = signers.primary.address.toLowerCase();
+    const groups = new Map<string, Set<string>>();
+    for (const record of store.list({ active: true })) {
+      const owner = record.owner ?? primary;
+      if (!record.owner) store.upsert({ ...record, owner });
+      groups.set(
+        record.marketGroupAddress,
+        (groups.get(record.marketGroupAddress) ?? new Set()).add(owner)
+      );
+    }
+    logger.info(
+      `Reconciling stored positions across ${groups.size} market groups...`
+    );
+    for (const [address, owners] of groups) {
+      for (const owner of owners) {
+        let signer: AccountSigner;
+        try {
+          signer = signers.forAddress(owner);
+        } catch {
+          logger.warn(
+            `Stored positions in ${address} belong to ${owner}, which is not in the signer pool; leaving them as they are`
+          );
+          continue;
+        }
+        const lpManager = new LPManager(config, address, signer, { store });
+        await lpManager.reconcileStoredPositions();
+      }
+    }
+  }
+
+  /**
+   * Check locally stored active positions for this market group against
+   * on-chain state and mark the ones that were closed, settled or transferred
+   * away while the bot was not running.
+   */
+  async reconcileStoredPositions(): Promise<void> {
+    if (!this.store) return;
+
+    const records = this.store.list({
+      active: true,
+      marketGroupAddress: this.marketGroupAddress,
+      owner: this.address,
+    });
+    this.logger.debug(
+      `Reconciling ${records.length} stored positions for ${this.sapience.target}`
+    );
+
+    for (const record of records) {
+      try {
+        const owner: string = await this.sapience.ownerOf(record.tokenId);
+        const positionData = await this.sapience.getPosition(record.tokenId);
+        const kindNum = Number(positionData.kind);
+        const isSettled = Boolean(positionData.isSettled);
+        const expectedKind = record.kind === 'trader' ? 2 : 1;
+
+        if (
+          owner.toLowerCase() !== this.address.toLowerCase() ||
+          kindNum !== expectedKind ||
+          isSettled
+        ) {
+          this.logger.info(
+            `Stored position ${record.tokenId} is no longer active (owner=${owner}, kind=${kindNum}, settled=${isSettled}); marking inactive`
+          );
+          this.store.update(record.marketGroupAddress, record.tokenId, {
+            isActive: false,
+            closedAt: Date.now(),
+          });
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Could not reconcile stored position ${record.tokenId}:`,
+          error
+        );
+      }
+    }
+  }
+
   isPriceOutsideDeviation(currentPrice: number, targetPrice: number): boolean {
     const deviation = Math.abs(currentPrice - targetPrice) / targetPrice;
     return deviation > this.config.lpManagement.deviationThreshold;
   }
 
+  /**
+   * Why an existing position should be replaced, or an empty list if it is
+   * still fine: the new target moved past deviationThreshold from the stored
+   * target, or the pool price left the stored tick range. Positions with no
+   * stored target fall back to comparing the live pool price with the target.
+   */
+  getRebalanceReasons(
+    existing: LPPosition,
+    targetPrice: number,
+    currentPrice: number,
+    currentTick: number
+  ): string[] {
+    const reasons: string[] = [];
+    if (
+      existing.targetPrice > 0 &&
+      this.isPriceOutsideDeviation(targetPrice, existing.targetPrice)
+    ) {
+      reasons.push(
+        `target moved ${existing.targetPrice.toFixed(4)} -> ${targetPrice.toFixed(4)}`
+      );
+    }
+    if (
+      existing.lowerTick < existing.upperTick &&
+      (currentTick < existing.lowerTick || currentTick >= existing.upperTick)
+    ) {
+      reasons.push(
+        `pool tick ${currentTick} outside range ${existing.lowerTick}..${existing.upperTick}`
+      );
+    }
+    if (
+      existing.targetPrice <= 0 &&
+      this.isPriceOutsideDeviation(currentPrice, targetPrice)
+    ) {
+      // No stored target to compare against: fall back to the live pool price
+      reasons.push(
+        `pool price ${currentPrice.toFixed(4)} far from target ${targetPrice.toFixed(4)}`
+      );
+    }
+    return reasons;
+  }
+
   calculatePriceRange(targetPrice: number): PriceRange {
     const epsilon = 1e-6;
     const halfRange = this.config.lpManagement.concentrationRange / 2;
@@ -502,29 +949,102 @@ export class LPManager extends EventEmitter {
     };
   }
 
-  private tickToSqrtPriceX96(tick: number): bigint {
-    // Convert tick to sqrtPriceX96 format
-    // This is based on Uniswap V3 math: sqrtPriceX96 = sqrt(1.0001^tick) * 2^96
-    const price = Math.pow(1.0001, tick);
-    const sqrtPrice = Math.sqrt(price);
-    const sqrtPriceX96 = BigInt(Math.floor(sqrtPrice * 2 ** 96));
-    return sqrtPriceX96;
+  /**
+   * Decode Sapience custom errors into a SapienceError and log it. Decoded
+   * errors get a one-line log; anything else is logged in full.
+   */
+  private handleError(context: string, error: unknown): unknown {
+    const decoded = decodeSapienceError(error);
+    if (decoded) {
+      this.logger.error(`${context}: ${decoded.message} -> ${decoded.action}`);
+      return decoded;
+    }
+    this.logger.error(`${context}:`, error);
+    return error;
+  }
+
+  private applySlippage(amount: bigint): bigint {
+    const bps = BigInt(this.config.execution.liquiditySlippageBps);
+    return (BigInt(amount) * (10_000n - bps)) / 10_000n;
+  }
+
+  // Sapience expects tradeSlippage as an 18-decimal fraction (1e18 = 100%)
+  private tradeSlippageD18(): bigint {
+    return BigInt(this.config.execution.tradeSlippageBps) * 10n ** 14n;
+  }
+
+  private getDeadline(): number {
+    return (
+      Math.floor(Date.now() / 1000) + this.config.execution.deadlineSeconds
+    );
+  }
+
+  /**
+   * Token amounts backing `liquidity` in a tick range at the given price,
+   * computed offline with the same math as the contract's
+   * getTokensFromLiquidity.
+   */
+  getTokensFromLiquidity(
+    liquidity: bigint,
+    sqrtPriceX96: bigint,
+    lowerTick: number,
+    upperTick: number
+  ): { amount0: bigint; amount1: bigint } {
+    return getAmountsForLiquidity(
+      sqrtPriceX96,
+      getSqrtRatioAtTick(lowerTick),
+      getSqrtRatioAtTick(upperTick),
+      liquidity
+    );
   }
 
-  private async ensureCollateralApproval(
+  /**
+   * Compares offline token amounts with the contract's
+   * getTokensFromLiquidity and warns when they drift apart, which would mean
+   * our tick math no longer matches the pool.
+   */
+  private async checkTokensFromLiquidity(
+    liquidity: bigint,
+    sqrtPriceX96: bigint,
+    lowerTick: number,
+    upperTick: number
+  ): Promise<void> {
+    const offline = this.getTokensFromLiquidity(
+      liquidity,
+      sqrtPriceX96,
+      lowerTick,
+      upperTick
+    );
+    const [amount0, amount1] = await this.sapience.getTokensFromLiquidity(
+      liquidity,
+      sqrtPriceX96,
+      getSqrtRatioAtTick(lowerTick),
+      getSqrtRatioAtTick(upperTick)
+    );
+    const drift = (a: bigint, b: bigint) => (a > b ? a - b : b - a);
+    if (
+      drift(offline.amount0, BigInt(amount0)) > 1n ||
+      drift(offline.amount1, BigInt(amount1)) > 1n
+    ) {
+      this.logger.warn(
+        `Offline token amounts (${offline.amount0}, ${offline.amount1}) differ from getTokensFromLiquidity (${amount0}, ${amount1})`
+      );
+    }
+  }
+
+  async ensureCollateralApproval(
     collateralAmount: string,
     collateralAddress: string
   ): Promise<void> {
     this.logger.debug(`Checking collateral approval for ${collateralAddress}`);
-    const tokenSymbol = await this.getCollateralTokenSymbol(collateralAddress);
     this.logger.debug(
-      `Required amount: ${collateralAmount} wei (${this.weiToEth(collateralAmount)} ${tokenSymbol})`
+      `Required amount: ${await this.tokens.format(collateralAddress, collateralAmount)}`
     );
 
-    const collateralContract = new ethers.Contract(
+    const collateralContract = getContract(
       collateralAddress,
       ERC20_ABI,
-      this.wallet
+      this.signer
     );
     const spender = this.sapience.target; // The Sapience contract address
 
@@ -533,21 +1053,23 @@ export class LPManager extends EventEmitter {
 
     // Check current allowance
     const currentAllowance = await collateralContract.allowance(
-      this.wallet.address,
+      this.address,
       spender
     );
-    this.logger.debug(`Current allowance: ${currentAllowance.toString()} wei`);
+    this.logger.debug(
+      `Current allowance: ${await this.tokens.format(collateralAddress, currentAllowance)}`
+    );
 
     if (currentAllowance < requiredAmount) {
       this.logger.info(`Approving collateral token...`);
       this.logger.debug(`Calling approve(${spender}, MaxUint256)`);
 
-      const approveTx = await collateralContract.approve(
-        spender,
-        ethers.MaxUint256
+      await this.transactions.send(
+        collateralContract,
+        'approve',
+        [spender, ethers.MaxUint256],
+        `approve ${collateralAddress} for ${spender}`
       );
-      this.logger.info(`Approval transaction submitted: ${approveTx.hash}`);
-      await approveTx.wait();
       this.logger.info(`Collateral approval confirmed`);
     } else {
       this.logger.debug(`Sufficient allowance already exists`);
@@ -577,7 +1099,7 @@ export class LPManager extends EventEmitter {
           // Check if this is a mint (from address is zero) to our wallet
           if (
             parsedLog.args.from === ethers.ZeroAddress &&
-            parsedLog.args.to === this.wallet.address
+            parsedLog.args.to === this.address
           ) {
             return Number(parsedLog.args.tokenId);
           }
@@ -590,10 +1112,4 @@ export class LPManager extends EventEmitter {
     // If we can't find the token ID, throw error
     throw new Error('Could not extract token ID from transaction receipt');
   }
-
-  sqrtPriceToPrice(sqrtPriceX96: bigint): number {
-    // Convert sqrtPriceX96 format to regular price
-    const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96;
-    return sqrtPrice ** 2;
-  }
 }
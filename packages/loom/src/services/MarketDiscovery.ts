@@ -0,0 +1,211 @@
+import {
+  createLogger,
+  GraphQLService,
+  MARKETS_QUERY,
+  MarketWhereInput,
+  SapienceMarket,
+} from '@ts-bots/shared';
+import fs from 'fs';
+import { resolve } from 'path';
+import { DiscoveredMarket, LoomConfig } from '../types';
+import { PositionStore } from './PositionStore';
+
+interface DiscoveryState {
+  cursor?: number; // highest API market id seen
+  lastFullSync?: number;
+  markets: Record<string, DiscoveredMarket>;
+}
+
+/**
+ * The markets MarketLPAgent works through, kept in
+ * `$DATA_DIR/market-discovery.json`. Each refresh fetches only markets with
+ * an API id above the stored cursor; every MARKET_RESYNC_INTERVAL_MS it
+ * re-reads all unsettled markets instead, refreshing them and dropping the
+ * ones no longer listed. A market stays pending until a run handles it: one
+ * deferred (no collateral, no edge, an error) keeps its reason and is tried
+ * again. Handled markets come back while the bot holds a position in them,
+ * and every market is dropped once it expires.
+ */
+export class MarketDiscovery {
+  private path: string;
+  private state: DiscoveryState;
+  private logger = createLogger('Loom');
+
+  constructor(
+    private config: LoomConfig,
+    private store: PositionStore
+  ) {
+    this.path = resolve(config.storage.dataDir, 'market-discovery.json');
+    this.state = this.read();
+  }
+
+  /** Fetch markets added since the cursor, or all of them when a resync is due. */
+  async refresh(
+    gql: Pick<GraphQLService, 'paginate'>,
+    now: number = Date.now()
+  ): Promise<void> {
+    const { cursor, lastFullSync } = this.state;
+    const full =
+      cursor === undefined ||
+      lastFullSync === undefined ||
+      now - lastFullSync >= this.config.discovery.resyncIntervalMs;
+    const where: MarketWhereInput = { settled: { equals: false } };
+    if (!full) where.id = { gt: cursor };
+    const markets = await gql.paginate(
+      MARKETS_QUERY,
+      { where, orderBy: [{ id: 'asc' }] },
+      (r) => r.markets
+    );
+
+    const listed = new Set<string>();
+    let added = 0;
+    for (const market of markets) {
+      const key = marketKey(market);
+      listed.add(key);
+      const tracked = this.state.markets[key];
+      if (tracked) {
+        tracked.market = market;
+      } else {
+        this.state.markets[key] = {
+          market,
+          status: 'pending',
+          firstSeen: now,
+          attempts: 0,
+        };
+        added++;
+      }
+      this.state.cursor = Math.max(this.state.cursor ?? 0, Number(market.id));
+    }
+
+    let dropped = 0;
+    if (full) {
+      // Settled or withdrawn since we found them
+      for (const key of Object.keys(this.state.markets)) {
+        if (listed.has(key)) continue;
+        delete this.state.markets[key];
+        dropped++;
+      }
+      this.state.lastFullSync = now;
+    }
+    this.write();
+    this.logger.info(
+      `Market discovery (${full ? 'full resync' : `after id ${cursor}`}): ${markets.length} fetched, ${added} new, ${dropped} dropped, ${Object.keys(this.state.markets).length} tracked`
+    );
+  }
+
+  /**
+   * The markets to process now, oldest first: pending markets whose retry
+   * time has come and handled markets the bot holds a position in. Expired
+   * markets are dropped.
+   */
+  due(now: number = Date.now()): SapienceMarket[] {
+    const held = new Set(
+      this.store
+        .list({ active: true })
+        .map((r) => `${r.marketGroupAddress}:${r.marketId}`)
+    );
+    const due: DiscoveredMarket[] = [];
+    let expired = 0;
+    for (const [key, tracked] of Object.entries(this.state.markets)) {
+      const end = Number(tracked.market.endTimestamp ?? 0);
+      if (end > 0 && end * 1000 <= now) {
+        delete this.state.markets[key];
+        expired++;
+        continue;
+      }
+      const ready =
+        tracked.status === 'pending'
+          ? (tracked.retryAt ?? 0) <= now
+          : held.has(key);
+      if (ready) due.push(tracked);
+    }
+    if (expired > 0) {
+      this.logger.debug(`Market discovery: dropped ${expired} expired`);
+      this.write();
+    }
+    return due
+      .sort((a, b) => Number(a.market.id) - Number(b.market.id))
+      .map((t) => t.market);
+  }
+
+  /** Pending markets that have been deferred at least once. */
+  get retryQueue(): DiscoveredMarket[] {
+    return Object.values(this.state.markets).filter(
+      (t) => t.status === 'pending' && t.attempts > 0
+    );
+  }
+
+  /**
+   * The market was dealt with, or skipped for good with `reason`; it comes
+   * back only while a position is held.
+   */
+  handled(
+    market: SapienceMarket,
+    reason?: string,
+    now: number = Date.now()
+  ): void {
+    const tracked = this.track(market, now);
+    tracked.status = 'handled';
+    tracked.lastAttempt = now;
+    tracked.reason = reason;
+    delete tracked.retryAt;
+    delete tracked.failures;
+    this.write();
+  }
+
+  /**
+   * Keep the market pending with `reason`. After a failure it waits
+   * MARKET_RETRY_DELAY_MS, doubling with each consecutive failure up to the
+   * resync interval; other deferrals are retried on the next run.
+   */
+  deferred(
+    market: SapienceMarket,
+    reason: string,
+    failed = false,
+    now: number = Date.now()
+  ): void {
+    const tracked = this.track(market, now);
+    const { retryDelayMs, resyncIntervalMs } = this.config.discovery;
+    tracked.status = 'pending';
+    tracked.attempts++;
+    tracked.lastAttempt = now;
+    tracked.reason = reason;
+    tracked.failures = failed ? (tracked.failures ?? 0) + 1 : 0;
+    tracked.retryAt = failed
+      ? now +
+        Math.min(resyncIntervalMs, retryDelayMs * 2 ** (tracked.failures - 1))
+      : now;
+    this.write();
+  }
+
+  private track(market: SapienceMarket, now: number): DiscoveredMarket {
+    const key = marketKey(market);
+    this.state.markets[key] ??= {
+      market,
+      status: 'pending',
+      firstSeen: now,
+      attempts: 0,
+    };
+    return this.state.markets[key];
+  }
+
+  private read(): DiscoveryState {
+    try {
+      const state = JSON.parse(fs.readFileSync(this.path, 'utf8'));
+      return { ...state, markets: state.markets ?? {} };
+    } catch {
+      return { markets: {} };
+    }
+  }
+
+  private write(): void {
+    fs.mkdirSync(this.config.storage.dataDir, { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.state));
+    fs.renameSync(tmp, this.path);
+  }
+}
+
+function marketKey(market: SapienceMarket): string {
+  return `${market.marketGroup.address.toLowerCase()}:${market.marketId}`;
+}
@@ -2,156 +2,860 @@ import {
   createConfig,
   createGraphQLService,
   createLogger,
-  createOpenAIService,
-  MARKETS_QUERY,
-  MarketsQueryResult,
+  createForecaster,
+  Forecaster,
+  getTickAtSqrtRatio,
+  SapienceMarket,
+  sqrtPriceX96ToPrice,
 } from '@ts-bots/shared';
-import { LoomConfig } from '../types';
+import { resolve } from 'path';
+import { LoomConfig, LPPosition, MarketPriceParams, TokenInfo } from '../types';
+import { formatAmount, resolveAmount } from '../utils/amounts';
+import { decodeSapienceError } from '../utils/errors';
+import { EASPublisher } from './EASPublisher';
 import { LPManager } from './LPManager';
+import { MarketDiscovery } from './MarketDiscovery';
+import { PositionIndex } from './PositionIndex';
+import { PositionSizer, SizingResult } from './PositionSizer';
+import { PositionStore } from './PositionStore';
 import { PriceModel } from './PriceModel';
+import { RiskManager } from './RiskManager';
+import { SettlementSweeper } from './SettlementSweeper';
+import { SignerPool } from './SignerPool';
+import { TraderManager } from './TraderManager';
+import { TransactionError, TransactionManager } from './TransactionManager';
+import { WindDownManager } from './WindDownManager';
+
+// `target`: the forecast acted on; `retry`: nothing was done, but a later
+// run might (no collateral, no edge)
+type MarketOutcome =
+  | { status: 'created' | 'rebalanced' | 'traded'; target: TargetRange }
+  | { status: 'skipped'; reason: string; retry: boolean };
+
+const done = (
+  status: 'created' | 'rebalanced' | 'traded',
+  target: TargetRange
+): MarketOutcome => ({ status, target });
+const skip = (reason: string): MarketOutcome => ({
+  status: 'skipped',
+  reason,
+  retry: false,
+});
+const defer = (reason: string): MarketOutcome => ({
+  status: 'skipped',
+  reason,
+  retry: true,
+});
+
+interface TargetForecast {
+  targetPrice: number;
+  lowerTick: number;
+  upperTick: number;
+  reasoning?: string;
+  confidence?: number;
+}
+
+interface TargetRange extends TargetForecast {
+  currentPrice: number;
+  currentTick: number;
+  priceFloor: number;
+  priceScale: number;
+  collateralAddress: string;
+}
 
 export class MarketLPAgent {
-  private lastRunCutoff?: string;
-  constructor(private loomConfig: LoomConfig) {}
+  private store: PositionStore;
+  private discovery: MarketDiscovery;
+  // `${account}:${collateral}` pairs found short of collateral this run
+  private outOfCollateral = new Set<string>();
+  private sizer: PositionSizer;
+  private publisher?: EASPublisher;
+  private risk: RiskManager;
+  private sweeper: SettlementSweeper;
+  private windDown: WindDownManager;
+
+  constructor(
+    private loomConfig: LoomConfig,
+    private signers: SignerPool
+  ) {
+    this.store = new PositionStore(
+      resolve(loomConfig.storage.dataDir, 'positions.jsonl')
+    );
+    this.discovery = new MarketDiscovery(loomConfig, this.store);
+    this.sizer = new PositionSizer(
+      loomConfig.lpManagement.confidence.minSizeFactor,
+      loomConfig.sizing
+    );
+    this.risk = new RiskManager(loomConfig, this.store, signers);
+    this.sweeper = new SettlementSweeper(loomConfig, this.store, signers);
+    this.windDown = new WindDownManager(loomConfig, this.store, signers);
+    if (loomConfig.easPublishing.enabled) {
+      this.publisher = new EASPublisher(loomConfig, signers.primary);
+    }
+  }
+
+  /**
+   * Reconcile the local position store with on-chain state for every market
+   * group we have stored positions in. Run once at startup.
+   */
+  async reconcilePositions(): Promise<void> {
+    await LPManager.reconcileStore(this.loomConfig, this.store, this.signers);
+  }
 
   async runOnce(): Promise<void> {
     const logger = createLogger('Loom');
     const sharedConfig = createConfig();
     const gql = createGraphQLService(sharedConfig);
-    const openai = createOpenAIService(sharedConfig);
+    const forecaster = createForecaster(sharedConfig);
+    logger.debug(`Forecaster: ${forecaster.name}`);
+    TransactionManager.startRun();
+    this.outOfCollateral.clear();
+
+    const model = new PriceModel(this.loomConfig.lpManagement.confidence);
+
+    // Settle resolved markets first: frees collateral and keeps them out of
+    // the drawdown mark
+    await this.sweeper.sweep();
+    await this.windDown.run();
+    await this.risk.evaluateDrawdown();
+    if (this.risk.isHalted) {
+      logger.warn(
+        'Emergency stop active: no positions will be created or adjusted.'
+      );
+      return;
+    }
 
-    const model = new PriceModel();
+    // Built lazily per market group and thrown away at the end of the run
+    const index = new PositionIndex();
 
     logger.info('Fetching active markets from Sapience API...');
-    const where: any = { settled: { equals: false } };
-    if (this.lastRunCutoff) {
-      where.createdAt = { gt: this.lastRunCutoff };
+    try {
+      await this.discovery.refresh(gql);
+    } catch (error) {
+      logger.warn(
+        `Could not fetch markets (${(error as Error)?.message ?? String(error)}); working from the ones already discovered.`
+      );
     }
-    const variables = { where } as any;
-    const { markets } = await gql.query<MarketsQueryResult>(
-      MARKETS_QUERY,
-      variables
-    );
-    logger.info(`Active markets: ${markets.length}`);
+    const markets = this.discovery.due();
+    logger.info(`Markets to process: ${markets.length}`);
 
     let createdCount = 0;
+    let rebalancedCount = 0;
+    let tradedCount = 0;
 
-    for (const m of markets) {
-      const sapienceAddress = m.marketGroup?.address;
-      if (!sapienceAddress) {
-        logger.warn(
-          `Market ${m.marketId} missing marketGroup.address, skipping.`
+    for (const [i, m] of markets.entries()) {
+      let outcome: MarketOutcome;
+      try {
+        outcome = await this.processMarket(
+          m,
+          model,
+          forecaster,
+          index,
+          markets.length - i
         );
-        continue;
-      }
-
-      const lpManager = new LPManager(this.loomConfig, sapienceAddress);
-      const marketIdBig = BigInt(m.marketId);
-
-      // Optional: skip expired markets when endTimestamp provided
-      if (m.endTimestamp) {
-        const endSec =
-          typeof m.endTimestamp === 'string'
-            ? parseInt(m.endTimestamp, 10)
-            : Number(m.endTimestamp);
-        const nowSec = Math.floor(Date.now() / 1000);
-        if (Number.isFinite(endSec) && nowSec > endSec) {
-          logger.info(
-            `Market ${m.marketId} expired at ${new Date(endSec * 1000).toISOString()}, skipping.`
+      } catch (error) {
+        if (
+          error instanceof TransactionError &&
+          error.reason === 'gas-budget'
+        ) {
+          logger.error(
+            `Market ${m.marketId}: ${error.message}. Stopping this run.`
+          );
+          this.discovery.deferred(m, 'gas budget spent');
+          break;
+        }
+        const decoded = decodeSapienceError(error);
+        if (decoded?.errorName === 'CollateralBelowMin') {
+          this.sizer.recordMinimum(
+            m.marketGroup.address,
+            BigInt(decoded.args.minCollateral as bigint)
           );
+        }
+        const message =
+          decoded?.message ?? (error as Error)?.message ?? String(error);
+        if (decoded?.action === 'skip-market') {
+          // The market itself refused (expired, bad range, ...): not retried
+          this.discovery.handled(m, message);
+          logger.warn(`Market ${m.marketId} failed (${message}), skipping.`);
           continue;
         }
+        if (decoded?.action === 'raise-size') {
+          // Sized again next run against the minimum recorded above
+          this.discovery.deferred(m, message);
+          logger.warn(`Market ${m.marketId}: ${message}, will retry.`);
+          continue;
+        }
+        this.discovery.deferred(m, message, true);
+        if (decoded?.action === 'stop-run') {
+          logger.error(`Market ${m.marketId}: ${message}. Stopping this run.`);
+          break;
+        }
+        logger.warn(`Market ${m.marketId} failed (${message}), will retry.`);
+        continue;
       }
 
-      const existing = await lpManager.getCurrentLPPosition(marketIdBig);
-      if (existing) {
-        logger.debug(
-          `Market ${m.marketId}: position exists (${existing.id}), skipping.`
+      if (outcome.status === 'created') createdCount += 1;
+      if (outcome.status === 'rebalanced') rebalancedCount += 1;
+      if (outcome.status === 'traded') tradedCount += 1;
+      if (outcome.status !== 'skipped') {
+        this.discovery.handled(m);
+      } else if (outcome.retry) {
+        this.discovery.deferred(m, outcome.reason);
+      } else {
+        this.discovery.handled(m, outcome.reason);
+      }
+      // Attest only forecasts a position was built on; the attestation is
+      // sent through TransactionManager and so counts against the gas budget
+      if (outcome.status !== 'skipped' && !this.risk.isHalted) {
+        await this.publisher?.publish({
+          marketAddress: m.marketGroup.address,
+          marketId: BigInt(m.marketId),
+          price: outcome.target.targetPrice,
+          sqrtPriceX96: model.priceToSqrtPriceX96(outcome.target.targetPrice),
+          comment: outcome.target.reasoning || '',
+          priceScale: outcome.target.priceScale,
+        });
+      }
+    }
+
+    const queue = this.discovery.retryQueue;
+    logger.info(
+      `Run complete. Markets processed=${markets.length}, positions created=${createdCount}, rebalanced=${rebalancedCount}, traded=${tradedCount}, awaiting retry=${queue.length}`
+    );
+    for (const t of queue) {
+      logger.debug(
+        `Market ${t.market.marketId}: ${t.reason} (${t.attempts} attempts)`
+      );
+    }
+  }
+
+  private async processMarket(
+    m: SapienceMarket,
+    model: PriceModel,
+    forecaster: Forecaster,
+    index: PositionIndex,
+    candidates: number
+  ): Promise<MarketOutcome> {
+    const logger = createLogger('Loom');
+    const sapienceAddress = m.marketGroup?.address;
+    if (!sapienceAddress) {
+      logger.warn(
+        `Market ${m.marketId} missing marketGroup.address, skipping.`
+      );
+      return skip('missing market group address');
+    }
+
+    // Place new positions with accounts that still have the collateral
+    const collateralKey = m.marketGroup.collateralAsset?.toLowerCase();
+    const exhausted = this.signers.addresses.filter((a) =>
+      this.outOfCollateral.has(`${a.toLowerCase()}:${collateralKey}`)
+    );
+    const lpManager = new LPManager(
+      this.loomConfig,
+      sapienceAddress,
+      this.signers.forMarket(
+        this.store,
+        sapienceAddress,
+        m.marketId,
+        exhausted
+      ),
+      { store: this.store, index }
+    );
+    const marketIdBig = BigInt(m.marketId);
+
+    // Optional: skip expired markets when endTimestamp provided
+    if (m.endTimestamp) {
+      const endSec =
+        typeof m.endTimestamp === 'string'
+          ? parseInt(m.endTimestamp, 10)
+          : Number(m.endTimestamp);
+      const nowSec = Math.floor(Date.now() / 1000);
+      if (Number.isFinite(endSec) && nowSec > endSec) {
+        logger.info(
+          `Market ${m.marketId} expired at ${new Date(endSec * 1000).toISOString()}, skipping.`
         );
-        continue;
+        return skip('expired');
+      }
+      if (
+        Number.isFinite(endSec) &&
+        !this.windDown.allowsNewPosition(endSec, nowSec)
+      ) {
+        logger.info(
+          `Market ${m.marketId} ends at ${new Date(endSec * 1000).toISOString()}, inside the wind-down window; no new positions or rebalances.`
+        );
+        return skip('inside the wind-down window');
       }
+    }
 
-      // Stop when collateral is insufficient
-      const collateralAddress = m.marketGroup?.collateralAsset;
-      if (!collateralAddress) {
-        logger.warn(`Market ${m.marketId}: missing collateralAsset, skipping.`);
-        continue;
+    if (this.loomConfig.trading.strategy === 'directional') {
+      return this.tradeMarket(
+        lpManager,
+        model,
+        forecaster,
+        m,
+        index,
+        candidates
+      );
+    }
+
+    const existing = await lpManager.getCurrentLPPosition(marketIdBig);
+    if (existing) {
+      if (!this.loomConfig.lpManagement.rebalanceEnabled) {
+        logger.debug(
+          `Market ${m.marketId}: position exists (${existing.id}), skipping.`
+        );
+        return skip('position exists');
       }
-      const required = BigInt(
-        this.loomConfig.lpManagement.defaultCollateralAmount
+      const rebalanced = await this.rebalancePosition(
+        lpManager,
+        model,
+        forecaster,
+        m,
+        existing,
+        candidates
       );
-      try {
-        const balance = await lpManager.getCollateralBalance(collateralAddress);
-        if (balance < required) {
-          logger.info(
-            `Insufficient collateral (${balance.toString()} wei) for required ${required.toString()} wei. Stopping further creations this run.`
-          );
-          break;
-        }
-      } catch (e) {
-        logger.warn(`Could not fetch collateral balance, attempting anyway...`);
+      return rebalanced
+        ? done('rebalanced', rebalanced)
+        : skip('position in range');
+    }
+
+    // Leave the market for a later run when collateral is insufficient
+    const collateralAddress = m.marketGroup?.collateralAsset;
+    if (!collateralAddress) {
+      logger.warn(`Market ${m.marketId}: missing collateralAsset, skipping.`);
+      return skip('missing collateral asset');
+    }
+    const token = await lpManager.tokens.get(collateralAddress);
+    const baseAmount = resolveAmount(
+      this.loomConfig.lpManagement.defaultCollateralAmount,
+      token
+    );
+    // Fixed sizing needs the full amount; dynamic sizing anything at all
+    const required = this.loomConfig.sizing.mode === 'fixed' ? baseAmount : 1n;
+    let balance: bigint | undefined;
+    try {
+      balance = await lpManager.getCollateralBalance(collateralAddress);
+      if (balance < required) {
+        logger.info(
+          `Market ${m.marketId}: insufficient collateral (${formatAmount(balance, token)}) for required ${formatAmount(required, token)} in ${lpManager.signer.address}, deferring.`
+        );
+        this.outOfCollateral.add(
+          `${lpManager.signer.address.toLowerCase()}:${collateralKey}`
+        );
+        return defer('insufficient collateral');
       }
+    } catch (e) {
+      logger.warn(`Could not fetch collateral balance, attempting anyway...`);
+    }
+
+    const target = await this.computeTargetRange(
+      lpManager,
+      model,
+      forecaster,
+      m
+    );
+    const { targetPrice, lowerTick, upperTick, reasoning } = target;
+    const sizing = await this.sizeCollateral(
+      lpManager,
+      target,
+      token,
+      baseAmount,
+      balance,
+      candidates
+    );
+    if (sizing.amount === 0n) {
+      logger.info(`Market ${m.marketId}: ${sizing.reason}, skipping.`);
+      return defer(sizing.reason ?? 'sized to zero');
+    }
+    const collateralAmount = sizing.amount.toString();
+
+    logger.debug(
+      `Market ${m.marketId}: ticks ${lowerTick}..${upperTick} around target ${targetPrice}, collateral ${formatAmount(collateralAmount, token)}`
+    );
 
-      const question = m.marketGroup?.question || '';
-      const claimYes = m.claimStatementYesOrNumeric || undefined;
-      const claimNo = m.claimStatementNo || undefined;
-
-      logger.debug(`Asking OpenAI for probability on market ${m.marketId}...`);
-      const prediction = await openai.predictMarket({
-        question,
-        claimYes,
-        claimNo,
-      });
-      const likelihood = prediction.probabilityYes; // 0..1
+    const decision = this.risk.checkNewPosition(
+      sapienceAddress,
+      m.marketId,
+      BigInt(collateralAmount),
+      token
+    );
+    if (!decision.allowed) {
       logger.info(
-        `Market ${m.marketId}: probabilityYes=${(likelihood * 100).toFixed(2)}%`
+        `Market ${m.marketId}: risk check refused new position (${decision.reason}), skipping.`
       );
-      logger.debug(`Reasoning: ${prediction.reasoning || ''}`);
+      return defer(`risk check: ${decision.reason}`);
+    }
 
-      const marketData = await lpManager.getMarketData(marketIdBig);
-      const targetPrice = model.likelihoodToPrice(likelihood);
-      const currentPrice = lpManager.sqrtPriceToPrice(
-        marketData.currentSqrtPriceX96
-      );
-      const currentTick = Math.floor(Math.log(currentPrice) / Math.log(1.0001));
-      const { lowerTick, upperTick } = model.priceToTicks(
-        targetPrice,
-        currentTick,
-        this.loomConfig.lpManagement.concentrationRange,
-        typeof marketData.baseAssetMinPriceTick === 'bigint'
-          ? Number(marketData.baseAssetMinPriceTick)
-          : marketData.baseAssetMinPriceTick,
-        typeof marketData.baseAssetMaxPriceTick === 'bigint'
-          ? Number(marketData.baseAssetMaxPriceTick)
-          : marketData.baseAssetMaxPriceTick
+    if (process.env.DRY_RUN === 'true') {
+      logger.info('DRY RUN enabled: skipping createLPPosition call.');
+      return defer('dry run');
+    }
+
+    const position = await this.withRecovery(
+      m.marketId,
+      token,
+      collateralAmount,
+      (amount) =>
+        lpManager.createLPPosition(
+          marketIdBig,
+          lowerTick,
+          upperTick,
+          targetPrice,
+          amount,
+          reasoning
+        )
+    );
+    logger.info(`Created LP position ${position.id} for market ${m.marketId}`);
+    return done('created', target);
+  }
+
+  /**
+   * Run a create and react to decoded Sapience errors: retry once with a
+   * fresh quote on `requote`, or with half the collateral on `reduce-size`.
+   * Other errors propagate to the per-market handler in runOnce.
+   */
+  private async withRecovery<T>(
+    marketId: string,
+    token: TokenInfo,
+    collateralAmount: string,
+    action: (collateralAmount: string) => Promise<T>
+  ): Promise<T> {
+    const logger = createLogger('Loom');
+    try {
+      return await action(collateralAmount);
+    } catch (error) {
+      const decoded = decodeSapienceError(error);
+      if (decoded?.action === 'requote') {
+        logger.info(
+          `Market ${marketId}: ${decoded.errorName}, retrying with a fresh quote...`
+        );
+        return await action(collateralAmount);
+      }
+      if (decoded?.action === 'reduce-size') {
+        const reduced = (BigInt(collateralAmount) / 2n).toString();
+        logger.info(
+          `Market ${marketId}: ${decoded.errorName}, retrying with ${formatAmount(reduced, token)} collateral...`
+        );
+        return await action(reduced);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-forecast a market we already hold and replace the position when it has
+   * gone stale: the forecast moved past deviationThreshold from the target the
+   * position was built around, or the pool price left the stored tick range.
+   * The market cooldown in RiskManager keeps a noisy forecast from churning
+   * the same position every loop. Returns the target rebalanced to, or
+   * undefined when the position is kept.
+   */
+  private async rebalancePosition(
+    lpManager: LPManager,
+    model: PriceModel,
+    forecaster: Forecaster,
+    m: SapienceMarket,
+    existing: LPPosition,
+    candidates: number
+  ): Promise<TargetRange | undefined> {
+    const logger = createLogger('Loom');
+    const cooldown = this.risk.checkCooldown(m.marketGroup.address, m.marketId);
+    if (cooldown) {
+      logger.debug(
+        `Market ${m.marketId}: position ${existing.id} in ${cooldown.reason}, skipping rebalance.`
       );
+      return undefined;
+    }
 
+    const target = await this.computeTargetRange(
+      lpManager,
+      model,
+      forecaster,
+      m
+    );
+    const {
+      targetPrice,
+      currentPrice,
+      currentTick,
+      lowerTick,
+      upperTick,
+      reasoning,
+    } = target;
+
+    const reasons = lpManager.getRebalanceReasons(
+      existing,
+      targetPrice,
+      currentPrice,
+      currentTick
+    );
+
+    if (reasons.length === 0) {
       logger.debug(
-        `Market ${m.marketId}: ticks ${lowerTick}..${upperTick} around target ${targetPrice}`
+        `Market ${m.marketId}: position ${existing.id} within tolerance, no rebalance.`
       );
+      return undefined;
+    }
 
-      if (process.env.DRY_RUN === 'true') {
-        logger.info('DRY RUN enabled: skipping createLPPosition call.');
-        continue;
+    logger.info(
+      `Market ${m.marketId}: rebalancing ${existing.id} (${reasons.join('; ')})`
+    );
+
+    // The replaced position's collateral returns to the bankroll
+    const released = BigInt(
+      (existing.tokenId !== undefined &&
+        this.store.get(m.marketGroup.address, existing.tokenId)
+          ?.collateralAmount) ||
+        '0'
+    );
+    const balance = await lpManager
+      .getCollateralBalance(target.collateralAddress)
+      .then((b) => b + released)
+      .catch(() => undefined);
+    const token = await lpManager.tokens.get(target.collateralAddress);
+    const sizing = await this.sizeCollateral(
+      lpManager,
+      target,
+      token,
+      resolveAmount(
+        this.loomConfig.lpManagement.defaultCollateralAmount,
+        token
+      ),
+      balance,
+      candidates
+    );
+    if (sizing.amount === 0n) {
+      logger.info(
+        `Market ${m.marketId}: ${sizing.reason}, keeping ${existing.id}.`
+      );
+      return undefined;
+    }
+    const collateralAmount = sizing.amount.toString();
+    const decision = this.risk.checkAdjustment(
+      m.marketGroup.address,
+      m.marketId,
+      existing.tokenId,
+      BigInt(collateralAmount),
+      token
+    );
+    if (!decision.allowed) {
+      logger.info(
+        `Market ${m.marketId}: risk check refused rebalance (${decision.reason}).`
+      );
+      return undefined;
+    }
+
+    if (process.env.DRY_RUN === 'true') {
+      logger.info('DRY RUN enabled: skipping adjustLPPosition call.');
+      return undefined;
+    }
+
+    const position = await lpManager.adjustLPPosition(
+      existing,
+      lowerTick,
+      upperTick,
+      targetPrice,
+      collateralAmount,
+      reasoning
+    );
+    logger.info(
+      `Rebalanced market ${m.marketId}: ${existing.id} -> ${position.id} ticks ${lowerTick}..${upperTick}`
+    );
+    return target;
+  }
+
+  /**
+   * Directional strategy: open a long (forecast above the pool price) or
+   * short when the edge, as a fraction of the market's price range, exceeds
+   * edgeThreshold; scale the position down as the edge shrinks and close it
+   * once the edge falls to exitEdge or flips sign.
+   */
+  private async tradeMarket(
+    lpManager: LPManager,
+    model: PriceModel,
+    forecaster: Forecaster,
+    m: SapienceMarket,
+    index: PositionIndex,
+    candidates: number
+  ): Promise<MarketOutcome> {
+    const logger = createLogger('Loom');
+    const { edgeThreshold, exitEdge, maxCollateral } = this.loomConfig.trading;
+    const trader = new TraderManager(this.loomConfig, lpManager, {
+      store: this.store,
+      index,
+    });
+    const marketIdBig = BigInt(m.marketId);
+    const dryRun = process.env.DRY_RUN === 'true';
+
+    const existing = await trader.getCurrentTraderPosition(marketIdBig);
+    const target = await this.computeTargetRange(
+      lpManager,
+      model,
+      forecaster,
+      m
+    );
+    const { targetPrice, currentPrice, priceScale, reasoning } = target;
+    const edge = (targetPrice - currentPrice) / priceScale;
+    logger.info(
+      `Market ${m.marketId}: forecast ${targetPrice} vs pool ${currentPrice.toFixed(6)}, edge ${(edge * 100).toFixed(2)}%`
+    );
+
+    if (existing && existing.size !== 0n) {
+      const long = existing.size > 0n;
+      if (Math.abs(edge) <= exitEdge || edge > 0 !== long) {
+        logger.info(
+          `Market ${m.marketId}: edge gone or reversed, closing trader position ${existing.tokenId}.`
+        );
+        if (dryRun) {
+          logger.info('DRY RUN enabled: skipping closeTraderPosition call.');
+          return defer('dry run');
+        }
+        await trader.closeTraderPosition(existing);
+        return done('traded', target);
+      }
+
+      // Hold the full size at edgeThreshold and above, less as it converges
+      const keep = Math.min(1, Math.abs(edge) / edgeThreshold);
+      const size =
+        (existing.size * BigInt(Math.round(keep * 10_000))) / 10_000n;
+      const abs = (v: bigint) => (v < 0n ? -v : v);
+      if (abs(size) * 10n >= abs(existing.size) * 9n) {
+        logger.debug(
+          `Market ${m.marketId}: trader position ${existing.tokenId} sized for current edge.`
+        );
+        return skip('sized for current edge');
       }
+      const cooldown = this.risk.checkCooldown(
+        m.marketGroup.address,
+        m.marketId
+      );
+      if (cooldown) {
+        logger.info(`Market ${m.marketId}: ${cooldown.reason}, not scaling.`);
+        return skip(cooldown.reason ?? 'market cooldown');
+      }
+      if (dryRun) {
+        logger.info('DRY RUN enabled: skipping modifyTraderPosition call.');
+        return defer('dry run');
+      }
+      await trader.modifyTraderPosition(existing, size);
+      return done('traded', target);
+    }
+
+    if (Math.abs(edge) < edgeThreshold) {
+      logger.debug(
+        `Market ${m.marketId}: edge below ${(edgeThreshold * 100).toFixed(2)}%, no trade.`
+      );
+      return defer('edge below threshold');
+    }
 
-      const position = await lpManager.createLPPosition(
-        marketIdBig,
-        lowerTick,
-        upperTick,
-        targetPrice,
-        this.loomConfig.lpManagement.defaultCollateralAmount
+    const balance = await lpManager
+      .getCollateralBalance(target.collateralAddress)
+      .catch(() => undefined);
+    const token = await lpManager.tokens.get(target.collateralAddress);
+    const sizing = await this.sizeCollateral(
+      lpManager,
+      target,
+      token,
+      resolveAmount(maxCollateral, token),
+      balance,
+      candidates
+    );
+    if (sizing.amount === 0n) {
+      logger.info(`Market ${m.marketId}: ${sizing.reason}, no trade.`);
+      return defer(sizing.reason ?? 'sized to zero');
+    }
+    const collateralAmount = sizing.amount;
+    const decision = this.risk.checkNewPosition(
+      m.marketGroup.address,
+      m.marketId,
+      collateralAmount,
+      token
+    );
+    if (!decision.allowed) {
+      logger.info(
+        `Market ${m.marketId}: risk check refused trader position (${decision.reason}), skipping.`
       );
-      createdCount += 1;
+      return defer(`risk check: ${decision.reason}`);
+    }
+
+    const size = await trader.sizeForCollateral(
+      marketIdBig,
+      edge > 0 ? 1 : -1,
+      collateralAmount
+    );
+    if (size === 0n) {
       logger.info(
-        `Created LP position ${position.id} for market ${m.marketId}`
+        `Market ${m.marketId}: no size fits ${formatAmount(collateralAmount, token)} collateral, skipping.`
       );
+      return defer('no size fits the collateral');
     }
+    if (dryRun) {
+      logger.info('DRY RUN enabled: skipping openTraderPosition call.');
+      return defer('dry run');
+    }
+    await trader.openTraderPosition(marketIdBig, size, targetPrice, reasoning);
+    return done('traded', target);
+  }
 
-    // After the run, record cutoff for subsequent runs
-    this.lastRunCutoff = new Date().toISOString();
+  private async computeTargetRange(
+    lpManager: LPManager,
+    model: PriceModel,
+    forecaster: Forecaster,
+    m: SapienceMarket
+  ): Promise<TargetRange> {
+    const marketIdBig = BigInt(m.marketId);
+    const marketData = await lpManager.getMarketData(marketIdBig);
+    const params = await lpManager.getMarketPriceParams(marketData);
+    const currentPrice = sqrtPriceX96ToPrice(marketData.currentSqrtPriceX96);
+    const currentTick = getTickAtSqrtRatio(marketData.currentSqrtPriceX96);
+
+    const forecast = params.numeric
+      ? await this.forecastNumeric(model, forecaster, m, params, currentTick)
+      : await this.forecastBinary(model, forecaster, m, params, currentTick);
+
+    const priceScale =
+      (params.numeric && params.maxPrice - params.minPrice) || 1;
+    return {
+      ...forecast,
+      currentPrice,
+      currentTick,
+      priceFloor: params.numeric ? params.minPrice : 0,
+      priceScale,
+      collateralAddress: marketData.collateralAddress,
+    };
+  }
+
+  private async forecastBinary(
+    model: PriceModel,
+    forecaster: Forecaster,
+    m: SapienceMarket,
+    params: MarketPriceParams,
+    currentTick: number
+  ): Promise<TargetForecast> {
+    const logger = createLogger('Loom');
+    const question = m.marketGroup?.question || '';
+    const claimYes = m.claimStatementYesOrNumeric || undefined;
+    const claimNo = m.claimStatementNo || undefined;
+
+    logger.debug(
+      `Asking ${forecaster.name} for probability on market ${m.marketId}...`
+    );
+    const prediction = await forecaster.predictMarket({
+      question,
+      claimYes,
+      claimNo,
+      marketId: m.marketId,
+      marketGroupAddress: m.marketGroup.address,
+    });
+    const likelihood = prediction.probabilityYes; // 0..1
+    logger.info(
+      `Market ${m.marketId}: probabilityYes=${(likelihood * 100).toFixed(2)}%${
+        prediction.disagreement !== undefined
+          ? `, disagreement=${(prediction.disagreement * 100).toFixed(2)}%`
+          : ''
+      }${
+        prediction.confidence !== undefined
+          ? `, confidence=${(prediction.confidence * 100).toFixed(0)}%`
+          : ''
+      }`
+    );
+    logger.debug(`Reasoning: ${prediction.reasoning || ''}`);
+
+    const targetPrice = model.likelihoodToPrice(likelihood);
+    const { lowerTick, upperTick } = model.priceToTicks(
+      targetPrice,
+      currentTick,
+      this.loomConfig.lpManagement.concentrationRange,
+      params,
+      prediction.confidence
+    );
+
+    return {
+      targetPrice,
+      lowerTick,
+      upperTick,
+      reasoning: prediction.reasoning,
+      confidence: prediction.confidence,
+    };
+  }
+
+  private async forecastNumeric(
+    model: PriceModel,
+    forecaster: Forecaster,
+    m: SapienceMarket,
+    params: MarketPriceParams,
+    currentTick: number
+  ): Promise<TargetForecast> {
+    const logger = createLogger('Loom');
+
+    logger.debug(
+      `Asking ${forecaster.name} for an estimate on numeric market ${m.marketId}...`
+    );
+    const prediction = await forecaster.predictNumericMarket({
+      question: m.marketGroup?.question || '',
+      claimYes: m.claimStatementYesOrNumeric || undefined,
+      marketId: m.marketId,
+      marketGroupAddress: m.marketGroup.address,
+      minValue: params.minPrice,
+      maxValue: params.maxPrice,
+    });
     logger.info(
-      `Run complete. Markets scanned=${markets.length}, positions created=${createdCount}`
+      `Market ${m.marketId}: estimate=${prediction.estimate} (${prediction.lower}..${prediction.upper})${
+        prediction.disagreement !== undefined
+          ? `, disagreement=${(prediction.disagreement * 100).toFixed(2)}%`
+          : ''
+      }${
+        prediction.confidence !== undefined
+          ? `, confidence=${(prediction.confidence * 100).toFixed(0)}%`
+          : ''
+      }`
     );
+    logger.debug(`Reasoning: ${prediction.reasoning || ''}`);
+
+    const targetPrice = model.valueToPrice(prediction.estimate, params);
+    const { lowerTick, upperTick } = model.intervalToTicks(
+      targetPrice,
+      prediction.lower,
+      prediction.upper,
+      currentTick,
+      this.loomConfig.lpManagement.concentrationRange,
+      params,
+      prediction.confidence
+    );
+
+    return {
+      targetPrice,
+      lowerTick,
+      upperTick,
+      reasoning: prediction.reasoning,
+      confidence: prediction.confidence,
+    };
+  }
+
+  /**
+   * Collateral for a position under loomConfig.sizing. `balance` is the free
+   * collateral (plus whatever a rebalance releases); when it could not be
+   * read, fixed sizing goes ahead with baseAmount.
+   */
+  private async sizeCollateral(
+    lpManager: LPManager,
+    target: TargetRange,
+    token: TokenInfo,
+    baseAmount: bigint,
+    balance: bigint | undefined,
+    candidates: number
+  ): Promise<SizingResult> {
+    const { targetPrice, currentPrice, priceFloor, priceScale } = target;
+    const minCollateral = await this.sizer.minimumFor(lpManager);
+    return this.sizer.size({
+      baseAmount,
+      balance:
+        balance ?? (this.loomConfig.sizing.mode === 'fixed' ? baseAmount : 0n),
+      candidateMarkets: candidates,
+      forecast: (targetPrice - priceFloor) / priceScale,
+      poolPrice: (currentPrice - priceFloor) / priceScale,
+      confidence: target.confidence,
+      token,
+      minCollateral,
+    });
   }
 }
@@ -0,0 +1,86 @@
+import { createLogger } from '@ts-bots/shared';
+import { IndexedPosition } from '../types';
+import { LPManager } from './LPManager';
+
+/**
+ * In-memory map of (market group address, marketId) to an account's
+ * positions. Each market group is scanned on-chain at most once per account;
+ * LPManager keeps it current as it creates and closes positions, so lookups
+ * after the first never hit the chain.
+ */
+export class PositionIndex {
+  private groups = new Map<string, Promise<Map<string, IndexedPosition[]>>>();
+  private logger = createLogger('Loom');
+
+  async getMarketPositions(
+    lpManager: LPManager,
+    marketId: bigint
+  ): Promise<IndexedPosition[]> {
+    const group = await this.loadGroup(lpManager);
+    return group.get(marketId.toString()) ?? [];
+  }
+
+  // Both wait for a scan in flight, so a lookup after them sees the change
+  async add(position: IndexedPosition): Promise<void> {
+    const markets = await this.scanned(
+      groupKey(position.marketGroupAddress, position.owner)
+    );
+    if (!markets) return; // not scanned yet; the scan will pick it up
+    const list = markets.get(position.marketId) ?? [];
+    markets.set(position.marketId, [
+      ...list.filter((p) => p.tokenId !== position.tokenId),
+      position,
+    ]);
+  }
+
+  async remove(marketGroupAddress: string, tokenId: number): Promise<void> {
+    // Token IDs are unique per market group, whichever account holds them
+    const prefix = `${marketGroupAddress.toLowerCase()}:`;
+    for (const key of [...this.groups.keys()]) {
+      if (!key.startsWith(prefix)) continue;
+      const markets = await this.scanned(key);
+      if (!markets) continue;
+      for (const [marketId, list] of markets) {
+        markets.set(
+          marketId,
+          list.filter((p) => p.tokenId !== tokenId)
+        );
+      }
+    }
+  }
+
+  // A failed scan is dropped and redone by the next lookup, so skip it here
+  private async scanned(
+    key: string
+  ): Promise<Map<string, IndexedPosition[]> | undefined> {
+    return this.groups.get(key)?.catch(() => undefined);
+  }
+
+  private loadGroup(
+    lpManager: LPManager
+  ): Promise<Map<string, IndexedPosition[]>> {
+    const address = lpManager.marketGroupAddress;
+    const key = groupKey(address, lpManager.address);
+    let group = this.groups.get(key);
+    if (!group) {
+      group = lpManager.getWalletPositions().then((positions) => {
+        const markets = new Map<string, IndexedPosition[]>();
+        for (const p of positions) {
+          markets.set(p.marketId, [...(markets.get(p.marketId) ?? []), p]);
+        }
+        this.logger.debug(
+          `Indexed ${positions.length} positions across ${markets.size} markets in ${address} for ${lpManager.address}`
+        );
+        return markets;
+      });
+      // Drop failed scans so the next lookup retries instead of caching the error
+      group.catch(() => this.groups.delete(key));
+      this.groups.set(key, group);
+    }
+    return group;
+  }
+}
+
+function groupKey(marketGroupAddress: string, owner: string): string {
+  return `${marketGroupAddress.toLowerCase()}:${owner.toLowerCase()}`;
+}
@@ -0,0 +1,140 @@
+import { LoomConfig, TokenInfo } from '../types';
+import { formatAmount, resolveAmount } from '../utils/amounts';
+import { LPManager } from './LPManager';
+
+export interface SizingInput {
+  // Fixed-mode amount in token base units (DEFAULT_COLLATERAL_AMOUNT or
+  // TRADE_MAX_COLLATERAL)
+  baseAmount: bigint;
+  // Free collateral in token base units
+  balance: bigint;
+  // Markets still to be sized this run, including this one
+  candidateMarkets: number;
+  // Forecast and pool price as fractions of the market's price range
+  forecast: number;
+  poolPrice: number;
+  confidence?: number;
+  token: TokenInfo; // collateral token
+  // Market group minimum in token base units (minTradeSize, or the
+  // minCollateral of a CollateralBelowMin revert)
+  minCollateral?: bigint;
+}
+
+export interface SizingResult {
+  amount: bigint; // 0 when the market should be skipped
+  reason?: string;
+}
+
+export class PositionSizer {
+  // Per market group: minTradeSize, raised by CollateralBelowMin reverts
+  private minimums = new Map<string, bigint | undefined>();
+
+  constructor(
+    private minSizeFactor: number = 0.25,
+    private sizing?: LoomConfig['sizing']
+  ) {}
+
+  /**
+   * Scale a base collateral amount (wei) by forecast confidence, from
+   * minSizeFactor at confidence 0 up to the full amount at confidence 1.
+   * Forecasts without a confidence get the full amount.
+   */
+  scaleForConfidence(baseAmount: bigint, confidence?: number): bigint {
+    if (confidence === undefined || !isFinite(confidence)) return baseAmount;
+    const c = Math.max(0, Math.min(1, confidence));
+    const factor = this.minSizeFactor + (1 - this.minSizeFactor) * c;
+    // Scale in basis points to stay in bigint
+    return (baseAmount * BigInt(Math.round(factor * 10_000))) / 10_000n;
+  }
+
+  /** Minimum collateral for the market group, read once per group. */
+  async minimumFor(lpManager: LPManager): Promise<bigint | undefined> {
+    const address = lpManager.marketGroupAddress;
+    if (!this.minimums.has(address)) {
+      this.minimums.set(address, await lpManager.getMinTradeSize());
+    }
+    return this.minimums.get(address);
+  }
+
+  /** Remember the minCollateral a CollateralBelowMin revert reported. */
+  recordMinimum(marketGroupAddress: string, minCollateral: bigint): void {
+    this.minimums.set(marketGroupAddress.toLowerCase(), minCollateral);
+  }
+
+  /**
+   * Collateral for one market under the configured sizing mode:
+   * - fixed: baseAmount
+   * - bankroll: an even share of bankrollFraction of the free balance across
+   *   the remaining candidate markets
+   * - kelly: kellyFraction of the Kelly stake for buying at the pool price
+   *   with the forecast as the true probability, capped at the bankroll share
+   * then scaled by confidence and clamped to the per-market min/max. Amounts
+   * below the minimum skip the market rather than revert on-chain.
+   */
+  size(input: SizingInput): SizingResult {
+    const mode = this.sizing?.mode ?? 'fixed';
+    let amount: bigint;
+    if (mode === 'fixed') {
+      amount = input.baseAmount;
+    } else {
+      const share =
+        this.sizing!.bankrollFraction / Math.max(1, input.candidateMarkets);
+      const fraction =
+        mode === 'kelly'
+          ? Math.min(
+              share,
+              this.sizing!.kellyFraction *
+                kellyStake(input.forecast, input.poolPrice)
+            )
+          : share;
+      amount = fractionOf(input.balance, fraction);
+    }
+    amount = this.scaleForConfidence(amount, input.confidence);
+
+    const max = toUnits(this.sizing?.maxCollateral, input.token);
+    if (max !== undefined && amount > max) amount = max;
+    // Fixed sizing keeps its amount; callers check the balance against it
+    if (mode !== 'fixed' && amount > input.balance) amount = input.balance;
+
+    const configuredMin = toUnits(this.sizing?.minCollateral, input.token);
+    const min =
+      configuredMin !== undefined && configuredMin > (input.minCollateral ?? 0n)
+        ? configuredMin
+        : input.minCollateral;
+    if (amount === 0n) {
+      return { amount: 0n, reason: 'no edge or free collateral' };
+    }
+    if (min !== undefined && amount < min) {
+      return {
+        amount: 0n,
+        reason: `${formatAmount(amount, input.token)} below minimum ${formatAmount(min, input.token)}`,
+      };
+    }
+    return { amount };
+  }
+}
+
+/**
+ * Fraction of bankroll Kelly stakes on a binary contract priced q when the
+ * true probability is p: (p - q) / (1 - q) long, (q - p) / q short.
+ */
+export function kellyStake(p: number, q: number): number {
+  if (!isFinite(p) || !isFinite(q) || q <= 0 || q >= 1) return 0;
+  const stake = p > q ? (p - q) / (1 - q) : (q - p) / q;
+  return Math.max(0, Math.min(1, stake));
+}
+
+function fractionOf(amount: bigint, fraction: number): bigint {
+  if (!isFinite(fraction) || fraction <= 0) return 0n;
+  // Scale in parts per million to stay in bigint
+  return (
+    (amount * BigInt(Math.round(Math.min(1, fraction) * 1e6))) / 1_000_000n
+  );
+}
+
+function toUnits(
+  spec: string | undefined,
+  token: TokenInfo
+): bigint | undefined {
+  return spec ? resolveAmount(spec, token) : undefined;
+}
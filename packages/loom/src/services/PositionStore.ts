@@ -0,0 +1,129 @@
+import { createLogger } from '@ts-bots/shared';
+import fs from 'fs';
+import path from 'path';
+import { StoredPosition } from '../types';
+
+/**
+ * Durable JSON-lines record of the positions this bot has opened, keyed by
+ * market group and NFT token ID (token IDs are only unique within a group).
+ * Every write appends the full record; on load the last line for each
+ * position wins and the file is compacted.
+ */
+export class PositionStore {
+  private records = new Map<string, StoredPosition>();
+  private logger = createLogger('Loom');
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  get(marketGroupAddress: string, tokenId: number): StoredPosition | undefined {
+    return this.records.get(recordKey(marketGroupAddress, tokenId));
+  }
+
+  list(
+    filter: {
+      active?: boolean;
+      marketGroupAddress?: string;
+      owner?: string;
+    } = {}
+  ): StoredPosition[] {
+    const group = filter.marketGroupAddress?.toLowerCase();
+    const owner = filter.owner?.toLowerCase();
+    return [...this.records.values()].filter(
+      (r) =>
+        (filter.active === undefined || r.isActive === filter.active) &&
+        (group === undefined || r.marketGroupAddress === group) &&
+        (owner === undefined || r.owner === owner)
+    );
+  }
+
+  upsert(record: StoredPosition): StoredPosition {
+    const normalized = {
+      ...record,
+      marketGroupAddress: record.marketGroupAddress.toLowerCase(),
+    };
+    this.records.set(
+      recordKey(normalized.marketGroupAddress, normalized.tokenId),
+      normalized
+    );
+    fs.appendFileSync(this.filePath, JSON.stringify(normalized) + '\n');
+    return normalized;
+  }
+
+  update(
+    marketGroupAddress: string,
+    tokenId: number,
+    patch: Partial<Omit<StoredPosition, 'tokenId' | 'marketGroupAddress'>>
+  ): StoredPosition | undefined {
+    const current = this.records.get(recordKey(marketGroupAddress, tokenId));
+    if (!current) return undefined;
+    return this.upsert({ ...current, ...patch, lastUpdated: Date.now() });
+  }
+
+  /**
+   * Record a decrease or modify that moved a position's collateral from
+   * `before` to `after`: collateral returned adds to withdrawnCollateral and
+   * collateral added to depositedCollateral, so settlement PnL counts the
+   * whole life of the position.
+   */
+  recordCollateral(
+    marketGroupAddress: string,
+    tokenId: number,
+    before: bigint,
+    after: bigint,
+    patch: Partial<Omit<StoredPosition, 'tokenId' | 'marketGroupAddress'>> = {}
+  ): StoredPosition | undefined {
+    const current = this.get(marketGroupAddress, tokenId);
+    if (!current) return undefined;
+    const deposited = BigInt(
+      current.depositedCollateral ?? current.collateralAmount
+    );
+    const withdrawn = BigInt(current.withdrawnCollateral ?? '0');
+    return this.update(marketGroupAddress, tokenId, {
+      ...patch,
+      collateralAmount: after.toString(),
+      depositedCollateral: (after > before
+        ? deposited + after - before
+        : deposited
+      ).toString(),
+      withdrawnCollateral: (before > after
+        ? withdrawn + before - after
+        : withdrawn
+      ).toString(),
+    });
+  }
+
+  private load(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as StoredPosition;
+        this.records.set(
+          recordKey(record.marketGroupAddress, record.tokenId),
+          record
+        );
+      } catch {
+        this.logger.warn(`Skipping malformed line in ${this.filePath}`);
+      }
+    }
+
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(
+      tmp,
+      [...this.records.values()].map((r) => JSON.stringify(r) + '\n').join('')
+    );
+    fs.renameSync(tmp, this.filePath);
+    this.logger.debug(
+      `Loaded ${this.records.size} stored positions from ${this.filePath}`
+    );
+  }
+}
+
+function recordKey(marketGroupAddress: string, tokenId: number): string {
+  return `${marketGroupAddress.toLowerCase()}:${tokenId}`;
+}
@@ -1,4 +1,40 @@
+import {
+  getSqrtRatioAtTick,
+  nearestUsableTick,
+  priceToSqrtPriceX96,
+  priceToTick,
+} from '@ts-bots/shared';
+import { MarketPriceParams } from '../types';
+
+export interface ConfidenceScaling {
+  // Range width multiplier at confidence 1 (near certain)
+  minRangeScale: number;
+  // Range width multiplier at confidence 0 (pure guess)
+  maxRangeScale: number;
+}
+
 export class PriceModel {
+  constructor(
+    private scaling: ConfidenceScaling = {
+      minRangeScale: 0.5,
+      maxRangeScale: 2,
+    }
+  ) {}
+
+  /**
+   * Width multiplier for a forecast confidence: 1 at 0.5 (or when the
+   * forecaster gives none), shrinking towards minRangeScale as confidence
+   * rises and growing towards maxRangeScale as it falls.
+   */
+  rangeScaleForConfidence(confidence?: number): number {
+    if (confidence === undefined || !isFinite(confidence)) return 1;
+    const c = Math.max(0, Math.min(1, confidence));
+    const { minRangeScale, maxRangeScale } = this.scaling;
+    return c < 0.5
+      ? maxRangeScale + (1 - maxRangeScale) * (c / 0.5)
+      : 1 + (minRangeScale - 1) * ((c - 0.5) / 0.5);
+  }
+
   private isValidLikelihood(likelihood: number): boolean {
     return likelihood >= 0 && likelihood <= 1 && !isNaN(likelihood);
   }
@@ -19,47 +55,99 @@ export class PriceModel {
     return clampedLikelihood;
   }
 
+  /**
+   * Tick range around a target price, sized as a fraction of the market's
+   * price scale (maxPrice - minPrice) and aligned to its tick spacing.
+   */
   priceToTicks(
     targetPrice: number,
     currentTick: number,
-    concentrationRange: number = 0.05,
-    baseAssetMinPriceTick?: number,
-    baseAssetMaxPriceTick?: number
+    concentrationRange: number,
+    params: MarketPriceParams,
+    confidence?: number
   ): { lowerTick: number; upperTick: number } {
-    try {
-      const tickSpacing = 200;
+    const [minPrice, maxPrice] = this.priceBounds(params);
+    // Interpret concentrationRange as FULL width: [target - range/2, target + range/2],
+    // widened for low-confidence forecasts and narrowed for confident ones
+    const halfRange =
+      (concentrationRange *
+        (maxPrice - minPrice) *
+        this.rangeScaleForConfidence(confidence)) /
+      2;
+    return this.rangeToTicks(
+      targetPrice - halfRange,
+      targetPrice + halfRange,
+      currentTick,
+      params
+    );
+  }
 
-      // Interpret concentrationRange as FULL width: [target - range/2, target + range/2]
-      const epsilon = 1e-6; // avoid log(0)
-      const halfRange = concentrationRange / 2;
-      const lowerPrice = Math.max(epsilon, targetPrice - halfRange);
-      const upperPrice = Math.min(1 - epsilon, targetPrice + halfRange);
+  /**
+   * Tick range for a numeric forecast: the forecaster's interval, widened to
+   * at least the concentrationRange width around the estimate.
+   */
+  intervalToTicks(
+    estimate: number,
+    lower: number,
+    upper: number,
+    currentTick: number,
+    concentrationRange: number,
+    params: MarketPriceParams,
+    confidence?: number
+  ): { lowerTick: number; upperTick: number } {
+    const [minPrice, maxPrice] = this.priceBounds(params);
+    const halfRange =
+      (concentrationRange *
+        (maxPrice - minPrice) *
+        this.rangeScaleForConfidence(confidence)) /
+      2;
+    return this.rangeToTicks(
+      Math.min(lower, estimate - halfRange),
+      Math.max(upper, estimate + halfRange),
+      currentTick,
+      params
+    );
+  }
 
-      const rawLowerTick = Math.log(lowerPrice) / Math.log(1.0001);
-      const rawUpperTick = Math.log(upperPrice) / Math.log(1.0001);
+  /** Clamp a numeric forecast into the market's price bounds. */
+  valueToPrice(value: number, params: MarketPriceParams): number {
+    if (!isFinite(value)) {
+      throw new Error(`Invalid value: ${value}`);
+    }
+    const [minPrice, maxPrice] = this.priceBounds(params);
+    return Math.max(minPrice, Math.min(maxPrice, value));
+  }
 
-      let lowerTick = this.nearestUsableTick(
-        Math.floor(rawLowerTick),
-        tickSpacing
-      );
-      let upperTick = this.nearestUsableTick(
-        Math.ceil(rawUpperTick),
+  // Groups without usable price bounds are treated as 0..1 binary markets
+  private priceBounds(params: MarketPriceParams): [number, number] {
+    return params.maxPrice > params.minPrice
+      ? [params.minPrice, params.maxPrice]
+      : [0, 1];
+  }
+
+  private rangeToTicks(
+    lowerBound: number,
+    upperBound: number,
+    currentTick: number,
+    params: MarketPriceParams
+  ): { lowerTick: number; upperTick: number } {
+    const { tickSpacing, minTick, maxTick } = params;
+    const [minPrice, maxPrice] = this.priceBounds(params);
+    try {
+      const lowerPrice = Math.max(minPrice, lowerBound);
+      const upperPrice = Math.min(maxPrice, upperBound);
+
+      let lowerTick =
+        lowerPrice > 0
+          ? nearestUsableTick(priceToTick(lowerPrice), tickSpacing)
+          : minTick;
+      let upperTick = nearestUsableTick(
+        this.priceToTickCeil(upperPrice),
         tickSpacing
       );
 
-      if (
-        baseAssetMinPriceTick !== undefined &&
-        baseAssetMaxPriceTick !== undefined
-      ) {
-        const originalLowerTick = lowerTick;
-        const originalUpperTick = upperTick;
-        lowerTick = Math.max(lowerTick, baseAssetMinPriceTick);
-        upperTick = Math.min(upperTick, baseAssetMaxPriceTick);
-        if (lowerTick >= upperTick) {
-          lowerTick = baseAssetMinPriceTick;
-          upperTick = baseAssetMaxPriceTick;
-        }
-      }
+      lowerTick = Math.max(lowerTick, minTick);
+      upperTick = Math.min(upperTick, maxTick);
 
       if (lowerTick >= upperTick) {
         throw new Error(
@@ -69,31 +157,31 @@ export class PriceModel {
 
       return { lowerTick, upperTick };
     } catch (error) {
-      if (
-        baseAssetMinPriceTick !== undefined &&
-        baseAssetMaxPriceTick !== undefined
-      ) {
-        return {
-          lowerTick: baseAssetMinPriceTick,
-          upperTick: baseAssetMaxPriceTick,
-        };
-      }
-
-      const tickSpacing = 200;
-      const fallbackRange = Math.floor(1000 / tickSpacing) * tickSpacing;
-      const fallbackLower = this.nearestUsableTick(
-        currentTick - fallbackRange,
-        tickSpacing
+      // Fall back to a few spacings around the current tick, within bounds
+      const fallbackRange = 5 * tickSpacing;
+      const lowerTick = Math.max(
+        minTick,
+        nearestUsableTick(currentTick - fallbackRange, tickSpacing)
       );
-      const fallbackUpper = this.nearestUsableTick(
-        currentTick + fallbackRange,
-        tickSpacing
+      const upperTick = Math.min(
+        maxTick,
+        nearestUsableTick(currentTick + fallbackRange, tickSpacing)
       );
-      return { lowerTick: fallbackLower, upperTick: fallbackUpper };
+      return lowerTick < upperTick
+        ? { lowerTick, upperTick }
+        : { lowerTick: minTick, upperTick: maxTick };
     }
   }
 
-  private nearestUsableTick(tick: number, tickSpacing: number): number {
-    return Math.round(tick / tickSpacing) * tickSpacing;
+  priceToSqrtPriceX96(price: number): bigint {
+    return priceToSqrtPriceX96(price);
+  }
+
+  // Smallest tick whose price is >= price
+  private priceToTickCeil(price: number): number {
+    const tick = priceToTick(price);
+    return getSqrtRatioAtTick(tick) < priceToSqrtPriceX96(price)
+      ? tick + 1
+      : tick;
   }
 }
@@ -0,0 +1,165 @@
+import { ethers } from 'ethers';
+
+type RemoteSignerApi = 'clef' | 'eth';
+
+const METHODS: Record<
+  RemoteSignerApi,
+  { accounts: string; transaction: string; message: string; typedData: string }
+> = {
+  clef: {
+    accounts: 'account_list',
+    transaction: 'account_signTransaction',
+    message: 'account_signData',
+    typedData: 'account_signTypedData',
+  },
+  eth: {
+    accounts: 'eth_accounts',
+    transaction: 'eth_signTransaction',
+    message: 'eth_sign',
+    typedData: 'eth_signTypedData_v4',
+  },
+};
+
+/**
+ * Signs through an external JSON-RPC service holding the key, e.g. a local
+ * Clef (`account_*` methods) or a signer speaking `eth_signTransaction`. Only
+ * signing is remote: transactions are populated and broadcast through the
+ * connected provider like any other signer's.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  private requestId = 0;
+
+  constructor(
+    readonly url: string,
+    readonly api: RemoteSignerApi,
+    readonly address: string,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+  }
+
+  /**
+   * Connect to the signer at `url` for `address`, or its first account when
+   * none is given. Throws when the signer does not manage the account.
+   */
+  static async create(
+    url: string,
+    api: RemoteSignerApi,
+    address?: string,
+    provider: ethers.Provider | null = null
+  ): Promise<RemoteSigner> {
+    const unconnected = new RemoteSigner(url, api, ethers.ZeroAddress);
+    const accounts = await unconnected.rpc<string[]>(METHODS[api].accounts, []);
+    const account = address
+      ? accounts.find((a) => a.toLowerCase() === address.toLowerCase())
+      : accounts[0];
+    if (!account) {
+      throw new Error(
+        address
+          ? `Remote signer at ${url} does not manage ${address}`
+          : `Remote signer at ${url} has no accounts`
+      );
+    }
+    return new RemoteSigner(url, api, ethers.getAddress(account), provider);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.api, this.address, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    // request may be a Transaction, whose fields are getters
+    const copy = ethers.copyRequest(request);
+    if (copy.to) copy.to = await ethers.resolveAddress(copy.to, this.provider);
+    delete copy.from;
+    const tx = ethers.Transaction.from(copy as ethers.TransactionLike<string>);
+    const fees =
+      tx.type === 2
+        ? {
+            maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas ?? 0n),
+            maxPriorityFeePerGas: ethers.toQuantity(
+              tx.maxPriorityFeePerGas ?? 0n
+            ),
+          }
+        : { gasPrice: ethers.toQuantity(tx.gasPrice ?? 0n) };
+    const args = {
+      from: this.address,
+      to: tx.to,
+      gas: ethers.toQuantity(tx.gasLimit),
+      value: ethers.toQuantity(tx.value),
+      data: tx.data,
+      nonce: ethers.toQuantity(tx.nonce),
+      chainId: ethers.toQuantity(tx.chainId),
+      ...fees,
+    };
+
+    const result = await this.rpc<string | { raw: string }>(
+      METHODS[this.api].transaction,
+      [args]
+    );
+    const raw = typeof result === 'string' ? result : result.raw;
+    // Never broadcast something other than what was asked for
+    const signed = ethers.Transaction.from(raw);
+    if (
+      signed.from?.toLowerCase() !== this.address.toLowerCase() ||
+      signed.unsignedHash !== tx.unsignedHash
+    ) {
+      throw new Error(
+        `Remote signer returned a different transaction than requested (from ${signed.from})`
+      );
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data =
+      typeof message === 'string'
+        ? ethers.hexlify(ethers.toUtf8Bytes(message))
+        : ethers.hexlify(message);
+    return this.api === 'clef'
+      ? this.rpc<string>(METHODS.clef.message, [
+          'text/plain',
+          this.address,
+          data,
+        ])
+      : this.rpc<string>(METHODS.eth.message, [this.address, data]);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    return this.rpc<string>(METHODS[this.api].typedData, [
+      this.address,
+      this.api === 'clef' ? payload : JSON.stringify(payload),
+    ]);
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const request = new ethers.FetchRequest(this.url);
+    request.body = {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params,
+    };
+    const response = await request.send();
+    response.assertOk();
+    const { result, error } = response.bodyJson as {
+      result?: T;
+      error?: { code?: number; message?: string };
+    };
+    if (error) {
+      throw new Error(
+        `Remote signer ${method} failed: ${error.message ?? JSON.stringify(error)}`
+      );
+    }
+    return result as T;
+  }
+}
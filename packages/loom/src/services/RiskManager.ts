@@ -0,0 +1,332 @@
+import { createLogger } from '@ts-bots/shared';
+import fs from 'fs';
+import { resolve } from 'path';
+import { LoomConfig, StoredPosition, TokenInfo } from '../types';
+import { formatAmount, resolveAmount } from '../utils/amounts';
+import { LPManager } from './LPManager';
+import { PositionStore } from './PositionStore';
+import { SignerPool } from './SignerPool';
+import { TraderManager } from './TraderManager';
+
+export interface RiskDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface EmergencyStopState {
+  triggeredAt: number;
+  drawdown: number;
+}
+
+/**
+ * Portfolio-level limits checked before every position create or adjustment:
+ * MAX_POSITIONS, collateral caps per market group and in total, and a
+ * per-market cooldown. Open positions are the active ones in the local
+ * PositionStore. Collateral caps and drawdown are per collateral token, since
+ * amounts in different tokens do not add up.
+ *
+ * evaluateDrawdown() marks the portfolio to market once per run; when the
+ * drawdown crosses emergencyStopThreshold all new positions and adjustments
+ * are refused (and, with EMERGENCY_CLOSE_ALL, every position is closed). The
+ * stop is persisted in `$DATA_DIR/risk-state.json` and survives restarts;
+ * delete that file to resume.
+ */
+export class RiskManager {
+  private statePath: string;
+  private emergencyStop?: EmergencyStopState;
+  private logger = createLogger('Loom');
+
+  constructor(
+    private config: LoomConfig,
+    private store: PositionStore,
+    private signers: SignerPool
+  ) {
+    this.statePath = resolve(config.storage.dataDir, 'risk-state.json');
+    this.emergencyStop = this.readState();
+    if (this.emergencyStop) {
+      this.logger.warn(
+        `Emergency stop active since ${new Date(this.emergencyStop.triggeredAt).toISOString()} (drawdown ${(this.emergencyStop.drawdown * 100).toFixed(2)}%). Delete ${this.statePath} to resume.`
+      );
+    }
+  }
+
+  get isHalted(): boolean {
+    return this.emergencyStop !== undefined;
+  }
+
+  checkNewPosition(
+    marketGroupAddress: string,
+    marketId: string,
+    collateralAmount: bigint,
+    token: TokenInfo
+  ): RiskDecision {
+    if (this.isHalted) return { allowed: false, reason: 'emergency stop' };
+
+    const { maxPositions } = this.config.riskManagement;
+    const active = this.store.list({ active: true });
+    if (maxPositions > 0 && active.length >= maxPositions) {
+      return {
+        allowed: false,
+        reason: `max positions reached (${active.length}/${maxPositions})`,
+      };
+    }
+
+    return (
+      this.checkCooldown(marketGroupAddress, marketId) ??
+      this.checkCollateral(active, marketGroupAddress, collateralAmount, token)
+    );
+  }
+
+  /**
+   * An adjustment replaces `existingTokenId` with a new position of
+   * `collateralAmount`, so the position count does not change and the
+   * existing collateral is released first.
+   */
+  checkAdjustment(
+    marketGroupAddress: string,
+    marketId: string,
+    existingTokenId: number | undefined,
+    collateralAmount: bigint,
+    token: TokenInfo
+  ): RiskDecision {
+    if (this.isHalted) return { allowed: false, reason: 'emergency stop' };
+
+    const active = this.store
+      .list({ active: true })
+      .filter(
+        (r) =>
+          r.tokenId !== existingTokenId ||
+          r.marketGroupAddress !== marketGroupAddress.toLowerCase()
+      );
+    return (
+      this.checkCooldown(marketGroupAddress, marketId) ??
+      this.checkCollateral(active, marketGroupAddress, collateralAmount, token)
+    );
+  }
+
+  /**
+   * Mark every open position to market with getPositionPnl and
+   * getPositionCollateralValue and trigger the emergency stop when the loss
+   * relative to deposited collateral in any collateral token reaches
+   * emergencyStopThreshold.
+   */
+  async evaluateDrawdown(): Promise<void> {
+    if (this.isHalted) return;
+
+    const active = this.store.list({ active: true });
+    if (active.length === 0) return;
+
+    const marks = new Map<
+      string,
+      {
+        lpManager: LPManager;
+        positions: number;
+        deposited: bigint;
+        pnl: bigint;
+        value: bigint;
+      }
+    >();
+    const managers = new Map<string, LPManager>();
+    for (const record of active) {
+      try {
+        const lpManager = this.lpManager(managers, record);
+        const collateral = (
+          await lpManager.getCollateralAddress()
+        ).toLowerCase();
+        const pnl = await lpManager.getPositionPnl(record.tokenId);
+        const value = await lpManager.getPositionCollateralValue(
+          record.tokenId
+        );
+        const mark = marks.get(collateral) ?? {
+          lpManager,
+          positions: 0,
+          deposited: 0n,
+          pnl: 0n,
+          value: 0n,
+        };
+        mark.positions += 1;
+        mark.deposited += BigInt(record.collateralAmount);
+        mark.pnl += pnl;
+        mark.value += value;
+        marks.set(collateral, mark);
+      } catch (error) {
+        this.logger.warn(
+          `Could not mark position ${record.tokenId} to market:`,
+          error
+        );
+      }
+    }
+    if (marks.size === 0) return;
+
+    let drawdown = 0;
+    for (const [collateral, mark] of marks) {
+      if (mark.deposited === 0n) continue;
+      const token = await mark.lpManager.tokens.get(collateral);
+      const tokenDrawdown =
+        mark.pnl < 0n ? Number(-mark.pnl) / Number(mark.deposited) : 0;
+      drawdown = Math.max(drawdown, tokenDrawdown);
+      this.logger.info(
+        `Portfolio (${token.symbol}): positions=${mark.positions}, deposited=${formatAmount(mark.deposited, token)}, value=${formatAmount(mark.value, token)}, pnl=${formatAmount(mark.pnl, token)}, drawdown=${(tokenDrawdown * 100).toFixed(2)}%`
+      );
+    }
+
+    const { emergencyStopThreshold, emergencyCloseAll } =
+      this.config.riskManagement;
+    if (drawdown < emergencyStopThreshold) return;
+
+    this.logger.error(
+      `EMERGENCY STOP: drawdown ${(drawdown * 100).toFixed(2)}% >= threshold ${(emergencyStopThreshold * 100).toFixed(2)}%. Halting new positions.`
+    );
+    this.emergencyStop = { triggeredAt: Date.now(), drawdown };
+    this.writeState();
+
+    if (!emergencyCloseAll) return;
+    if (process.env.DRY_RUN === 'true') {
+      this.logger.info(
+        'DRY RUN enabled: skipping emergency close of positions.'
+      );
+      return;
+    }
+    for (const record of active) {
+      try {
+        const lpManager = this.lpManager(managers, record);
+        if (record.kind === 'trader') {
+          await new TraderManager(this.config, lpManager, {
+            store: this.store,
+          }).closeTraderPosition({
+            tokenId: record.tokenId,
+            marketId: record.marketId,
+            size: BigInt(record.size ?? '0'),
+            collateralAmount: BigInt(record.collateralAmount),
+          });
+          continue;
+        }
+        await lpManager.closeLPPosition({
+          id: `position-${record.tokenId}`,
+          marketId: record.marketId,
+          tokenId: record.tokenId,
+          lowerTick: record.lowerTick,
+          upperTick: record.upperTick,
+          liquidity: record.liquidity,
+          targetPrice: record.targetPrice,
+          createdAt: record.createdAt,
+          lastUpdated: record.lastUpdated,
+          isActive: true,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Emergency close of position ${record.tokenId} failed:`,
+          error
+        );
+      }
+    }
+  }
+
+  // One LPManager per market group and owning account
+  private lpManager(
+    managers: Map<string, LPManager>,
+    record: StoredPosition
+  ): LPManager {
+    const signer = this.signers.forAddress(record.owner);
+    const key = `${record.marketGroupAddress}:${signer.address}`;
+    let lpManager = managers.get(key);
+    if (!lpManager) {
+      lpManager = new LPManager(
+        this.config,
+        record.marketGroupAddress,
+        signer,
+        { store: this.store }
+      );
+      managers.set(key, lpManager);
+    }
+    return lpManager;
+  }
+
+  /**
+   * Returns a refusal while the market is within cooldownPeriod of the last
+   * stored action on it, otherwise undefined.
+   */
+  checkCooldown(
+    marketGroupAddress: string,
+    marketId: string
+  ): RiskDecision | undefined {
+    const group = marketGroupAddress.toLowerCase();
+    const lastAction = this.store
+      .list({ marketGroupAddress: group })
+      .filter((r) => r.marketId === marketId)
+      .reduce((latest, r) => Math.max(latest, r.lastUpdated), 0);
+    const cooldownMs = this.config.riskManagement.cooldownPeriod;
+    const remaining = lastAction + cooldownMs - Date.now();
+    if (remaining > 0) {
+      return {
+        allowed: false,
+        reason: `market cooldown (${Math.ceil(remaining / 1000)}s left)`,
+      };
+    }
+    return undefined;
+  }
+
+  private checkCollateral(
+    active: StoredPosition[],
+    marketGroupAddress: string,
+    collateralAmount: bigint,
+    token: TokenInfo
+  ): RiskDecision {
+    const { maxCollateralPerGroup, maxTotalCollateral } =
+      this.config.riskManagement;
+    const group = marketGroupAddress.toLowerCase();
+
+    // Older records without a collateral address count against every token
+    const total = active
+      .filter(
+        (r) => !r.collateralAddress || r.collateralAddress === token.address
+      )
+      .reduce((sum, r) => sum + BigInt(r.collateralAmount), 0n);
+    const maxTotal =
+      maxTotalCollateral !== undefined
+        ? resolveAmount(maxTotalCollateral, token)
+        : undefined;
+    if (maxTotal !== undefined && total + collateralAmount > maxTotal) {
+      return {
+        allowed: false,
+        reason: `total collateral cap (${formatAmount(total, token)} + ${formatAmount(collateralAmount, token)} > ${formatAmount(maxTotal, token)})`,
+      };
+    }
+
+    const inGroup = active
+      .filter((r) => r.marketGroupAddress === group)
+      .reduce((sum, r) => sum + BigInt(r.collateralAmount), 0n);
+    const maxInGroup =
+      maxCollateralPerGroup !== undefined
+        ? resolveAmount(maxCollateralPerGroup, token)
+        : undefined;
+    if (maxInGroup !== undefined && inGroup + collateralAmount > maxInGroup) {
+      return {
+        allowed: false,
+        reason: `market group collateral cap (${formatAmount(inGroup, token)} + ${formatAmount(collateralAmount, token)} > ${formatAmount(maxInGroup, token)})`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  // An unreadable stop must not read as no stop
+  private readState(): EmergencyStopState | undefined {
+    if (!fs.existsSync(this.statePath)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read emergency stop state ${this.statePath} (${(error as Error).message}); delete it to resume`
+      );
+    }
+  }
+
+  // Written to a temp file and renamed, so a crash never leaves it truncated
+  private writeState(): void {
+    fs.mkdirSync(this.config.storage.dataDir, { recursive: true });
+    const tmp = `${this.statePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.emergencyStop));
+    fs.renameSync(tmp, this.statePath);
+  }
+}
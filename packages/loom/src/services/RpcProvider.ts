@@ -0,0 +1,239 @@
+import { createLogger, retry, sleep } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import { LoomConfig } from '../types';
+
+type RpcPayload = ethers.JsonRpcPayload | ethers.JsonRpcPayload[];
+type RpcResponse = Array<ethers.JsonRpcResult | ethers.JsonRpcError>;
+
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// Node errors that mean "busy" rather than "no"
+const BUSY_CODES = new Set([-32005, 429]);
+const BUSY_MESSAGE =
+  /rate limit|too many requests|timed? ?out|header not found|temporarily unavailable|try again/i;
+
+// A node answered, but only to say it could not serve the request right now
+class BusyResponse extends Error {
+  constructor(
+    endpoint: string,
+    readonly response: RpcResponse
+  ) {
+    super(
+      `${endpoint} is busy: ${response
+        .map((r) => ('error' in r ? r.error.message : ''))
+        .filter(Boolean)
+        .join('; ')}`
+    );
+  }
+}
+
+class RateLimiter {
+  private next = 0;
+
+  constructor(private perSecond: number) {}
+
+  async wait(): Promise<void> {
+    if (this.perSecond <= 0) return;
+    const now = Date.now();
+    const at = Math.max(now, this.next);
+    this.next = at + 1000 / this.perSecond;
+    if (at > now) await sleep(at - now);
+  }
+}
+
+/**
+ * JSON-RPC provider over one or more endpoints for the configured chain.
+ * Requests wait for their endpoint's RPC_RATE_LIMIT; transport failures and
+ * busy answers (rate limits, timeouts) are retried with exponential backoff
+ * and jitter, each retry going to the next endpoint, which then stays in use.
+ * Raw transactions are sent once, as a retried broadcast that went through
+ * the first time comes back as an error.
+ */
+export class RpcProvider extends ethers.JsonRpcProvider {
+  private logger = createLogger('Loom');
+  private endpoints: Array<{ url: string; name: string; limiter: RateLimiter }>;
+  private active = 0;
+
+  constructor(
+    urls: string[],
+    private options: LoomConfig['rpc'],
+    chainId: number
+  ) {
+    super(urls[0], chainId, { staticNetwork: true, batchMaxCount: 1 });
+    this.endpoints = urls.map((url) => ({
+      url,
+      name: endpointName(url),
+      limiter: new RateLimiter(options.rateLimit),
+    }));
+  }
+
+  // Entries may be errors, which ethers' signature leaves out
+  async _send(payload: RpcPayload): Promise<ethers.JsonRpcResult[]> {
+    const methods = (Array.isArray(payload) ? payload : [payload]).map(
+      (p) => p.method
+    );
+    const broadcast = methods.includes('eth_sendRawTransaction');
+    try {
+      return (await retry(() => this.sendTo(this.active, payload), {
+        maxAttempts: broadcast ? 1 : this.options.maxRetries + 1,
+        delay: this.options.retryBaseDelayMs,
+        backoff: 'exponential',
+        maxDelay: MAX_RETRY_DELAY_MS,
+        jitter: true,
+        // Any failing endpoint is worth leaving when there is another
+        shouldRetry: (error) => this.endpoints.length > 1 || isTransient(error),
+        onRetry: (error, attempt, delay) => {
+          const failed = this.endpoints[this.active].name;
+          this.active = (this.active + 1) % this.endpoints.length;
+          this.logger.warn(
+            `RPC ${methods.join(',')} failed on ${failed} (attempt ${attempt}): ${(error as Error).message}; retrying on ${this.endpoints[this.active].name} in ${delay}ms`
+          );
+        },
+      })) as ethers.JsonRpcResult[];
+    } catch (error) {
+      // Out of retries: let ethers report the node's own error
+      if (error instanceof BusyResponse) {
+        return error.response as ethers.JsonRpcResult[];
+      }
+      throw error;
+    }
+  }
+
+  private async sendTo(index: number, payload: RpcPayload) {
+    const endpoint = this.endpoints[index];
+    await endpoint.limiter.wait();
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.timeout = this.options.timeoutMs;
+    // 429s are retried by _send, with backoff and on the next endpoint
+    request.retryFunc = async () => false;
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+    const response = await request.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    const results: RpcResponse = Array.isArray(body) ? body : [body];
+    if (results.some((r) => 'error' in r && isBusy(r.error))) {
+      throw new BusyResponse(endpoint.name, results);
+    }
+    return results;
+  }
+}
+
+// Providers hold rate limits and the endpoint in use, so keep one per setup
+const providers = new Map<string, ethers.Provider>();
+
+/**
+ * The shared provider for config.blockchain.rpcUrls: an RpcProvider, or in
+ * RPC_MODE=quorum a FallbackProvider over one RpcProvider per endpoint that
+ * returns what RPC_QUORUM of them agree on (by default half, rounded up).
+ */
+export function getProvider(config: LoomConfig): ethers.Provider {
+  const { rpcUrls, chainId } = config.blockchain;
+  if (rpcUrls.length === 0) {
+    throw new Error('Missing required environment variable: RPC_URL');
+  }
+  const key = JSON.stringify([rpcUrls, chainId, config.rpc]);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider =
+      config.rpc.mode === 'quorum' && rpcUrls.length > 1
+        ? new ethers.FallbackProvider(
+            rpcUrls.map((url) => new RpcProvider([url], config.rpc, chainId)),
+            chainId,
+            { quorum: config.rpc.quorum }
+          )
+        : new RpcProvider(rpcUrls, config.rpc, chainId);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+// Creating a Contract parses its ABI; keep one per runner, ABI and address
+const contracts = new WeakMap<
+  ethers.ContractRunner,
+  Map<ethers.InterfaceAbi, Map<string, ethers.Contract>>
+>();
+
+export function getContract(
+  address: string,
+  abi: ethers.InterfaceAbi,
+  runner: ethers.ContractRunner
+): ethers.Contract {
+  let byAbi = contracts.get(runner);
+  if (!byAbi) {
+    byAbi = new Map();
+    contracts.set(runner, byAbi);
+  }
+  let byAddress = byAbi.get(abi);
+  if (!byAddress) {
+    byAddress = new Map();
+    byAbi.set(abi, byAddress);
+  }
+  const key = address.toLowerCase();
+  let contract = byAddress.get(key);
+  if (!contract) {
+    contract = new ethers.Contract(address, abi, runner);
+    byAddress.set(key, contract);
+  }
+  return contract;
+}
+
+/**
+ * Check every configured endpoint serves CHAIN_ID. Throws on a mismatch, or
+ * when no endpoint answers; an unreachable backup is only logged.
+ */
+export async function checkChainId(config: LoomConfig): Promise<void> {
+  const logger = createLogger('Loom');
+  const expected = config.blockchain.chainId;
+  const results = await Promise.allSettled(
+    config.blockchain.rpcUrls.map(async (url) => {
+      const provider = new RpcProvider([url], config.rpc, expected);
+      try {
+        return Number(await provider.send('eth_chainId', []));
+      } finally {
+        provider.destroy();
+      }
+    })
+  );
+
+  let reachable = 0;
+  results.forEach((result, i) => {
+    const name = endpointName(config.blockchain.rpcUrls[i]);
+    if (result.status === 'rejected') {
+      logger.warn(
+        `RPC ${name} did not answer eth_chainId: ${(result.reason as Error).message}`
+      );
+      return;
+    }
+    if (result.value !== expected) {
+      throw new Error(
+        `RPC ${name} is on chain ${result.value}, but CHAIN_ID is ${expected}`
+      );
+    }
+    reachable++;
+  });
+  if (reachable === 0) {
+    throw new Error('No RPC endpoint answered eth_chainId');
+  }
+}
+
+function isBusy(error: ethers.JsonRpcError['error']): boolean {
+  return BUSY_CODES.has(error.code) || BUSY_MESSAGE.test(error.message ?? '');
+}
+
+// Everything but a 4xx (bad URL or API key) can go away on its own
+function isTransient(error: unknown): boolean {
+  if (!ethers.isError(error, 'SERVER_ERROR')) return true;
+  const status = parseInt(String(error.info?.responseStatus), 10);
+  return !(status >= 400 && status < 500) || status === 429;
+}
+
+// Endpoint URLs often carry an API key; log only the host
+function endpointName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'RPC endpoint';
+  }
+}
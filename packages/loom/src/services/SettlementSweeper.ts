@@ -0,0 +1,112 @@
+import { createLogger } from '@ts-bots/shared';
+import { LoomConfig } from '../types';
+import { formatAmount } from '../utils/amounts';
+import { LPManager } from './LPManager';
+import { PositionStore } from './PositionStore';
+import { SignerPool } from './SignerPool';
+
+/**
+ * Settles the accounts' positions in markets that have resolved so their
+ * collateral returns to them for new markets. Every market group the store
+ * has an active position in is scanned on-chain for every account in the
+ * pool, so positions opened outside the bot in those groups are settled as
+ * well.
+ */
+export class SettlementSweeper {
+  private logger = createLogger('Loom');
+
+  constructor(
+    private config: LoomConfig,
+    private store: PositionStore,
+    private signers: SignerPool
+  ) {}
+
+  async sweep(): Promise<void> {
+    if (!this.config.settlement.enabled) return;
+
+    const groups = new Set(
+      this.store.list({ active: true }).map((r) => r.marketGroupAddress)
+    );
+    if (groups.size === 0) return;
+    this.logger.debug(
+      `Sweeping ${groups.size} market groups for settled markets...`
+    );
+
+    let settledCount = 0;
+    // Totals per collateral token
+    const totals = new Map<
+      string,
+      { lpManager: LPManager; withdrawn: bigint; realizedPnl: bigint }
+    >();
+    const pairs = [...groups].flatMap((address) =>
+      this.signers.signers.map((signer) => ({ address, signer }))
+    );
+    for (const { address, signer } of pairs) {
+      const lpManager = new LPManager(this.config, address, signer, {
+        store: this.store,
+      });
+      try {
+        const positions = (await lpManager.getWalletPositions()).filter(
+          (p) => !p.isSettled
+        );
+        // One getMarket per market, however many positions it holds
+        const settledMarkets = new Map<string, boolean>();
+        for (const position of positions) {
+          let settled = settledMarkets.get(position.marketId);
+          if (settled === undefined) {
+            const marketData = await lpManager.getMarketData(
+              BigInt(position.marketId)
+            );
+            settled = marketData.settled;
+            settledMarkets.set(position.marketId, settled);
+          }
+          if (!settled) continue;
+
+          if (process.env.DRY_RUN === 'true') {
+            this.logger.info(
+              `DRY RUN enabled: skipping settlePosition for position ${position.tokenId} in settled market ${position.marketId}.`
+            );
+            continue;
+          }
+          try {
+            const result = await lpManager.settlePosition(position);
+            const collateral = (
+              await lpManager.getCollateralAddress()
+            ).toLowerCase();
+            const total = totals.get(collateral) ?? {
+              lpManager,
+              withdrawn: 0n,
+              realizedPnl: 0n,
+            };
+            total.withdrawn += result.withdrawnCollateral;
+            total.realizedPnl += result.realizedPnl;
+            totals.set(collateral, total);
+            settledCount += 1;
+          } catch (error) {
+            this.logger.warn(
+              `Could not settle position ${position.tokenId}, will retry next run:`,
+              error
+            );
+          }
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Settlement sweep of ${address} for ${signer.address} failed:`,
+          error
+        );
+      }
+    }
+
+    if (settledCount === 0) return;
+    const amounts: string[] = [];
+    for (const [collateral, total] of totals) {
+      const token = await total.lpManager.tokens.get(collateral);
+      amounts.push(
+        `withdrawn=${formatAmount(total.withdrawn, token)}, realized pnl=${formatAmount(total.realizedPnl, token)}`
+      );
+    }
+    this.logger.info(
+      `Settlement sweep: settled=${settledCount}, ${amounts.join('; ')}`
+    );
+  }
+}
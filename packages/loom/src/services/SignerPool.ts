@@ -0,0 +1,130 @@
+import { createLogger } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import { AccountSignerConfig, LoomConfig } from '../types';
+import { PositionStore } from './PositionStore';
+import { RemoteSigner } from './RemoteSigner';
+import { getProvider } from './RpcProvider';
+
+/** A signer whose address is known without a round trip. */
+export type AccountSigner = ethers.Signer & { readonly address: string };
+
+/**
+ * The accounts the bot signs with, loaded once at startup from
+ * config.blockchain.signer: a private key, an encrypted keystore, a remote
+ * signer, or a pool of those. Positions stay with the account that opened
+ * them; new markets go to the account with the fewest active positions.
+ */
+export class SignerPool {
+  private logger = createLogger('Loom');
+
+  private constructor(readonly signers: AccountSigner[]) {}
+
+  /** Load and connect every configured account to `provider`. */
+  static async load(
+    config: LoomConfig,
+    provider: ethers.Provider = getProvider(config)
+  ): Promise<SignerPool> {
+    const spec = config.blockchain.signer;
+    const members = spec.type === 'pool' ? spec.members : [spec];
+    const signers: AccountSigner[] = [];
+    for (const member of members) {
+      const signer = await loadSigner(member, provider);
+      if (signers.some((s) => sameAddress(s.address, signer.address))) {
+        throw new Error(`Account ${signer.address} is configured twice`);
+      }
+      signers.push(signer);
+    }
+    return SignerPool.of(signers);
+  }
+
+  static of(signers: AccountSigner[]): SignerPool {
+    if (signers.length === 0) throw new Error('No signers configured');
+    return new SignerPool(signers);
+  }
+
+  /** The first configured account; owner of records from before pools. */
+  get primary(): AccountSigner {
+    return this.signers[0];
+  }
+
+  get addresses(): string[] {
+    return this.signers.map((s) => s.address);
+  }
+
+  /** The signer for `owner`, or the primary account when it is unset. */
+  forAddress(owner?: string): AccountSigner {
+    if (!owner) return this.primary;
+    const signer = this.signers.find((s) => sameAddress(s.address, owner));
+    if (!signer) {
+      throw new Error(`Account ${owner} is not in the signer pool`);
+    }
+    return signer;
+  }
+
+  /**
+   * The account to act for in a market: the one holding an active stored
+   * position there, else the account with the fewest active positions,
+   * passing over the `exclude`d ones unless every account is.
+   */
+  forMarket(
+    store: PositionStore,
+    marketGroupAddress: string,
+    marketId: string,
+    exclude: string[] = []
+  ): AccountSigner {
+    if (this.signers.length === 1) return this.primary;
+
+    const active = store
+      .list({ active: true })
+      .filter((r) => this.has(r.owner));
+    const holder = active.find(
+      (r) =>
+        sameAddress(r.marketGroupAddress, marketGroupAddress) &&
+        r.marketId === marketId
+    );
+    if (holder) return this.forAddress(holder.owner);
+
+    const counts = this.signers.map((s) =>
+      exclude.some((a) => sameAddress(a, s.address))
+        ? Infinity
+        : active.filter((r) => this.forAddress(r.owner).address === s.address)
+            .length
+    );
+    const signer = this.signers[counts.indexOf(Math.min(...counts))];
+    this.logger.debug(
+      `Market ${marketId}: assigned to ${signer.address} (${counts.join('/')} active positions per account)`
+    );
+    return signer;
+  }
+
+  private has(owner?: string): boolean {
+    return !owner || this.signers.some((s) => sameAddress(s.address, owner));
+  }
+}
+
+async function loadSigner(
+  spec: AccountSignerConfig,
+  provider: ethers.Provider
+): Promise<AccountSigner> {
+  switch (spec.type) {
+    case 'private-key':
+      return new ethers.Wallet(spec.privateKey, provider);
+    case 'keystore': {
+      const password =
+        spec.password ??
+        fs.readFileSync(spec.passwordFile!, 'utf8').replace(/\r?\n$/, '');
+      const wallet = await ethers.Wallet.fromEncryptedJson(
+        fs.readFileSync(spec.path, 'utf8'),
+        password
+      );
+      return wallet.connect(provider);
+    }
+    case 'remote':
+      return RemoteSigner.create(spec.url, spec.api, spec.address, provider);
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,92 @@
+import { tickToPrice } from '@ts-bots/shared';
+
+/**
+ * One concentrated-liquidity position in a simulated Sapience pool, in token
+ * units. As on-chain, the LP borrows the virtual base and quote tokens it
+ * deposits (the amounts at the entry price), so its PnL at any point is what
+ * it holds less that debt, valued at a price:
+ *
+ *   (base(pool) - base(entry)) * valuationPrice + quote(pool) - quote(entry)
+ *
+ * which is never positive when valued at the pool price. Collateral covers
+ * the worst case of that anywhere within the market's price bounds. Swaps
+ * that move the pool price through the range pay feeRate on their input,
+ * lpShare of which goes to this position.
+ */
+export class SimulatedPosition {
+  readonly liquidity: number;
+  private sqrtLower: number;
+  private sqrtUpper: number;
+  private base0: number;
+  private quote0: number;
+  private sqrtPool: number;
+  private fees = 0;
+
+  constructor(
+    readonly lowerTick: number,
+    readonly upperTick: number,
+    entryPrice: number,
+    readonly collateral: number,
+    bounds: { minPrice: number; maxPrice: number },
+    private feeRate: number,
+    private lpShare: number
+  ) {
+    this.sqrtLower = Math.sqrt(tickToPrice(lowerTick));
+    this.sqrtUpper = Math.sqrt(tickToPrice(upperTick));
+    this.sqrtPool = Math.sqrt(entryPrice);
+    const [base, quote] = this.amounts(this.sqrtPool, 1);
+    this.base0 = base;
+    this.quote0 = quote;
+
+    // Loss per unit of liquidity is concave in price: worst at the bounds
+    const lossAt = (price: number) => {
+      const [b, q] = this.amounts(Math.sqrt(price), 1);
+      return -((b - base) * price + (q - quote));
+    };
+    const worstLoss = Math.max(
+      lossAt(Math.max(bounds.minPrice, 1e-12)),
+      lossAt(bounds.maxPrice)
+    );
+    this.liquidity = worstLoss > 0 ? collateral / worstLoss : 0;
+    this.base0 *= this.liquidity;
+    this.quote0 *= this.liquidity;
+  }
+
+  get feesEarned(): number {
+    return this.fees;
+  }
+
+  /** Whether the pool price is inside the position's range. */
+  inRange(): boolean {
+    return this.sqrtPool >= this.sqrtLower && this.sqrtPool < this.sqrtUpper;
+  }
+
+  /** Move the pool price, accruing fees on the part of the move in range. */
+  movePrice(price: number): void {
+    const next = Math.sqrt(price);
+    const clamp = (s: number) =>
+      Math.max(this.sqrtLower, Math.min(this.sqrtUpper, s));
+    // Input value of a swap across the range is L * |delta sqrt price| in
+    // quote terms whichever way it goes
+    const traded =
+      this.liquidity * Math.abs(clamp(next) - clamp(this.sqrtPool));
+    this.fees += traded * this.feeRate * this.lpShare;
+    this.sqrtPool = next;
+  }
+
+  /** PnL excluding fees with holdings at the current pool price. */
+  pnlAt(valuationPrice: number): number {
+    const [base, quote] = this.amounts(this.sqrtPool, this.liquidity);
+    return (base - this.base0) * valuationPrice + (quote - this.quote0);
+  }
+
+  private amounts(sqrtPrice: number, liquidity: number): [number, number] {
+    const a = this.sqrtLower;
+    const b = this.sqrtUpper;
+    if (sqrtPrice <= a) return [liquidity * (1 / a - 1 / b), 0];
+    if (sqrtPrice < b) {
+      return [liquidity * (1 / sqrtPrice - 1 / b), liquidity * (sqrtPrice - a)];
+    }
+    return [0, liquidity * (b - a)];
+  }
+}
@@ -0,0 +1,61 @@
+import { createLogger } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../abis/placeholders';
+import { TokenInfo } from '../types';
+import { formatAmount, resolveAmount } from '../utils/amounts';
+import { getContract } from './RpcProvider';
+
+// Token metadata never changes, so every registry shares one cache
+const tokens = new Map<string, TokenInfo>();
+
+/**
+ * ERC20 symbol, decimals and name keyed by token address, read once through
+ * ERC20_ABI. A token whose metadata cannot be read is reported as TOKEN with
+ * 18 decimals and looked up again on the next call.
+ */
+export class TokenRegistry {
+  private logger = createLogger('Loom');
+
+  constructor(private provider: ethers.Provider) {}
+
+  async get(address: string): Promise<TokenInfo> {
+    const key = address.toLowerCase();
+    const cached = tokens.get(key);
+    if (cached) return cached;
+
+    const contract = getContract(address, ERC20_ABI, this.provider);
+    try {
+      const [symbol, decimals, name] = await Promise.all([
+        contract.symbol(),
+        contract.decimals(),
+        contract.name(),
+      ]);
+      const token = {
+        address: key,
+        symbol: String(symbol),
+        decimals: Number(decimals),
+        name: String(name),
+      };
+      tokens.set(key, token);
+      this.logger.debug(
+        `Token ${address}: ${token.symbol} (${token.name}), ${token.decimals} decimals`
+      );
+      return token;
+    } catch (error) {
+      this.logger.warn(
+        `Could not fetch token metadata for ${address}, assuming TOKEN with 18 decimals`
+      );
+      return { address: key, symbol: 'TOKEN', decimals: 18, name: '' };
+    }
+  }
+
+  /** A base-unit amount of `address` in token units with its symbol. */
+  async format(address: string, amount: bigint | string): Promise<string> {
+    return formatAmount(amount, await this.get(address));
+  }
+
+  /** A configured amount (see parseAmountSpec) in base units of `address`. */
+  async resolve(spec: string, address: string): Promise<bigint> {
+    return resolveAmount(spec, await this.get(address));
+  }
+}
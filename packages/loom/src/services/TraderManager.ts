@@ -0,0 +1,352 @@
+import { createLogger } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { SAPIENCE_ABI } from '../abis/placeholders';
+import { LoomConfig, TraderPosition } from '../types';
+import { decodeSapienceError } from '../utils/errors';
+import { LPManager } from './LPManager';
+import { PositionIndex } from './PositionIndex';
+import { PositionStore } from './PositionStore';
+import { getContract } from './RpcProvider';
+
+export interface TraderManagerDeps {
+  store?: PositionStore;
+  index?: PositionIndex;
+}
+
+/**
+ * Directional (trader, kind 2) positions in one market group. Market data,
+ * the signer, the position scan and collateral approval go through the
+ * group's LPManager so both kinds share one account, index and allowance.
+ */
+export class TraderManager extends EventEmitter {
+  private sapience: ethers.Contract;
+  private logger = createLogger('Loom');
+  private store?: PositionStore;
+  private index?: PositionIndex;
+
+  constructor(
+    private config: LoomConfig,
+    private lpManager: LPManager,
+    deps: TraderManagerDeps = {}
+  ) {
+    super();
+    this.store = deps.store;
+    this.index = deps.index;
+    this.sapience = getContract(
+      lpManager.marketGroupAddress,
+      SAPIENCE_ABI.abi,
+      lpManager.signer
+    );
+  }
+
+  async getCurrentTraderPosition(
+    marketId: bigint
+  ): Promise<TraderPosition | null> {
+    const positions = this.index
+      ? await this.index.getMarketPositions(this.lpManager, marketId)
+      : (await this.lpManager.getWalletPositions()).filter(
+          (p) => p.marketId === marketId.toString()
+        );
+    const match = positions.find((p) => p.kind === 2 && !p.isSettled);
+    if (!match) return null;
+
+    const size = BigInt(await this.sapience.getPositionSize(match.tokenId));
+    return {
+      tokenId: match.tokenId,
+      marketId: match.marketId,
+      size,
+      collateralAmount: match.depositedCollateralAmount,
+    };
+  }
+
+  /**
+   * Largest position size in `direction` whose quoted required collateral
+   * fits within maxCollateral. quoteRequiredCollateral prices liquidity in an
+   * existing position, so a new trade is sized from quoteCreateTraderPosition:
+   * one quote scales a first guess, which is doubled until it no longer fits
+   * and then bisected to within 0.1%.
+   */
+  async sizeForCollateral(
+    marketId: bigint,
+    direction: 1 | -1,
+    maxCollateral: bigint
+  ): Promise<bigint> {
+    const quote = async (size: bigint): Promise<bigint | undefined> => {
+      try {
+        const [requiredCollateral] =
+          await this.sapience.quoteCreateTraderPosition.staticCall(
+            marketId,
+            size * BigInt(direction)
+          );
+        return BigInt(requiredCollateral);
+      } catch (error) {
+        // Only a trade too large for the collateral or the pool does not
+        // fit; anything else (RPC failures included) is the caller's problem
+        const decoded = decodeSapienceError(error);
+        if (
+          decoded?.action === 'reduce-size' ||
+          decoded?.errorName === 'TradePriceOutOfBounds'
+        ) {
+          return undefined;
+        }
+        throw decoded ?? error;
+      }
+    };
+    const fits = async (size: bigint): Promise<boolean> => {
+      const required = await quote(size);
+      return required !== undefined && required <= maxCollateral;
+    };
+
+    const probe = maxCollateral > 0n ? maxCollateral : 1n;
+    const required = await quote(probe);
+    let low = 0n;
+    let high =
+      required !== undefined && required > 0n
+        ? (probe * maxCollateral) / required || 1n
+        : probe;
+    for (let i = 0; i < 64 && (await fits(high)); i++) {
+      low = high;
+      high *= 2n;
+    }
+    while (high - low > high / 1000n && high - low > 1n) {
+      const mid = (low + high) / 2n;
+      if (await fits(mid)) low = mid;
+      else high = mid;
+    }
+
+    this.logger.debug(
+      `Market ${marketId}: size ${low * BigInt(direction)} fits collateral ${maxCollateral}`
+    );
+    return low * BigInt(direction);
+  }
+
+  async openTraderPosition(
+    marketId: bigint,
+    size: bigint,
+    targetPrice: number,
+    reasoning?: string
+  ): Promise<TraderPosition> {
+    try {
+      this.logger.info(
+        `Opening ${size > 0n ? 'long' : 'short'} trader position in market ${marketId}: size ${size}`
+      );
+      const marketData = await this.lpManager.getMarketData(marketId);
+
+      const [requiredCollateral, fillPrice] =
+        await this.sapience.quoteCreateTraderPosition.staticCall(
+          marketId,
+          size
+        );
+      const maxCollateral =
+        BigInt(requiredCollateral) + this.slippage(BigInt(requiredCollateral));
+      this.logger.debug(
+        `Quote: requiredCollateral=${await this.lpManager.tokens.format(marketData.collateralAddress, requiredCollateral)} (max ${maxCollateral}), fillPrice=${fillPrice}`
+      );
+
+      await this.lpManager.ensureCollateralApproval(
+        maxCollateral.toString(),
+        marketData.collateralAddress
+      );
+
+      const params = {
+        marketId,
+        size,
+        maxCollateral,
+        deadline: this.getDeadline(),
+      };
+      if (this.config.execution.simulate) {
+        await this.sapience.createTraderPosition.staticCall(params);
+      }
+
+      const receipt = await this.lpManager.transactions.send(
+        this.sapience,
+        'createTraderPosition',
+        [params],
+        `create trader position in market ${marketId}`
+      );
+      const tokenId = this.extractPositionId(receipt);
+
+      const now = Date.now();
+      this.store?.upsert({
+        tokenId,
+        kind: 'trader',
+        size: size.toString(),
+        marketGroupAddress: this.lpManager.marketGroupAddress,
+        owner: this.lpManager.address.toLowerCase(),
+        marketId: marketId.toString(),
+        lowerTick: 0,
+        upperTick: 0,
+        liquidity: '0',
+        targetPrice,
+        reasoning,
+        collateralAmount: requiredCollateral.toString(),
+        depositedCollateral: requiredCollateral.toString(),
+        collateralAddress: marketData.collateralAddress.toLowerCase(),
+        createTxHash: receipt.hash,
+        createdAt: now,
+        lastUpdated: now,
+        isActive: true,
+      });
+      await this.index?.add({
+        tokenId,
+        marketGroupAddress: this.lpManager.marketGroupAddress,
+        owner: this.lpManager.address.toLowerCase(),
+        marketId: marketId.toString(),
+        kind: 2,
+        isSettled: false,
+        depositedCollateralAmount: BigInt(requiredCollateral),
+        vQuoteAmount: 0n,
+        vBaseAmount: 0n,
+      });
+
+      const position: TraderPosition = {
+        tokenId,
+        marketId: marketId.toString(),
+        size,
+        collateralAmount: BigInt(requiredCollateral),
+      };
+      this.emit('positionCreated', position);
+      this.logger.info(`Trader position ${tokenId} opened`);
+      return position;
+    } catch (error) {
+      throw this.handleError(
+        `Error opening trader position in market ${marketId}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Move a trader position to `size` (0 closes it). The collateral delta
+   * limit is the quoted delta plus trade slippage: the most we will deposit,
+   * or the least we will accept back.
+   */
+  async modifyTraderPosition(
+    position: TraderPosition,
+    size: bigint
+  ): Promise<void> {
+    try {
+      this.logger.info(
+        `Modifying trader position ${position.tokenId}: size ${position.size} -> ${size}`
+      );
+      const [expectedCollateralDelta, closePnL] =
+        await this.sapience.quoteModifyTraderPosition.staticCall(
+          position.tokenId,
+          size
+        );
+      const delta = BigInt(expectedCollateralDelta);
+      const deltaCollateralLimit =
+        delta + this.slippage(delta < 0n ? -delta : delta);
+      this.logger.debug(
+        `Quote: collateralDelta=${delta} (limit ${deltaCollateralLimit}), closePnL=${closePnL}`
+      );
+
+      const params = {
+        positionId: position.tokenId,
+        size,
+        deltaCollateralLimit,
+        deadline: this.getDeadline(),
+      };
+      if (this.config.execution.simulate) {
+        await this.sapience.modifyTraderPosition.staticCall(params);
+      }
+
+      const before = await this.lpManager.getDepositedCollateral(
+        position.tokenId
+      );
+      const receipt = await this.lpManager.transactions.send(
+        this.sapience,
+        'modifyTraderPosition',
+        [params],
+        `modify trader position ${position.tokenId}`
+      );
+
+      const now = Date.now();
+      if (size === 0n) {
+        // Closing returns all of it
+        this.store?.recordCollateral(
+          this.lpManager.marketGroupAddress,
+          position.tokenId,
+          before,
+          0n,
+          {
+            size: '0',
+            isActive: false,
+            closeTxHash: receipt.hash,
+            closedAt: now,
+          }
+        );
+        await this.index?.remove(
+          this.lpManager.marketGroupAddress,
+          position.tokenId
+        );
+        this.emit('positionClosed', position);
+      } else {
+        // The delta was deposited or returned; record what the position
+        // holds now so caps and drawdown use it, and the delta for
+        // settlement PnL
+        position.collateralAmount = await this.lpManager.getDepositedCollateral(
+          position.tokenId
+        );
+        this.store?.recordCollateral(
+          this.lpManager.marketGroupAddress,
+          position.tokenId,
+          before,
+          position.collateralAmount,
+          { size: size.toString() }
+        );
+        this.emit('positionModified', { ...position, size });
+      }
+      position.size = size;
+      this.logger.info(`Trader position ${position.tokenId} now size ${size}`);
+    } catch (error) {
+      throw this.handleError(
+        `Error modifying trader position ${position.tokenId}`,
+        error
+      );
+    }
+  }
+
+  async closeTraderPosition(position: TraderPosition): Promise<void> {
+    await this.modifyTraderPosition(position, 0n);
+  }
+
+  private extractPositionId(receipt: ethers.TransactionReceipt): number {
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.sapience.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === 'TraderPositionCreated') {
+          return Number(parsed.args.positionId);
+        }
+      } catch {
+        // Not a Sapience event
+      }
+    }
+    throw new Error('Could not extract position ID from transaction receipt');
+  }
+
+  private handleError(context: string, error: unknown): unknown {
+    const decoded = decodeSapienceError(error);
+    if (decoded) {
+      this.logger.error(`${context}: ${decoded.message} -> ${decoded.action}`);
+      return decoded;
+    }
+    this.logger.error(`${context}:`, error);
+    return error;
+  }
+
+  private slippage(amount: bigint): bigint {
+    const bps = BigInt(this.config.execution.tradeSlippageBps);
+    return (amount * bps) / 10_000n;
+  }
+
+  private getDeadline(): number {
+    return (
+      Math.floor(Date.now() / 1000) + this.config.execution.deadlineSeconds
+    );
+  }
+}
@@ -0,0 +1,354 @@
+import { createLogger, sleep } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { LoomConfig, TransactionEvent } from '../types';
+import { AccountSigner } from './SignerPool';
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+interface SentTransaction {
+  hash: string;
+  replacement?: 'speed-up' | 'cancel';
+  fees: Fees;
+}
+
+export type TransactionFailure =
+  | 'gas-budget'
+  | 'timeout'
+  | 'cancelled'
+  | 'reverted';
+
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: TransactionFailure,
+    readonly hash?: string
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+// Every service sending from one account shares its nonces and gas budget
+const managers = new Map<string, TransactionManager>();
+
+/**
+ * Sends contract transactions from one account, one at a time: nonces are
+ * tracked locally, fees are the network's EIP-1559 suggestion capped by
+ * config, and a transaction not mined within the confirmation timeout is
+ * replaced at the same nonce with bumped fees (the same call, or a zero-value
+ * self-transfer when TX_STUCK_ACTION=cancel). Gas spent is counted against
+ * MAX_GAS_SPEND_PER_RUN until the next startRun(). Emits a `transaction`
+ * TransactionEvent for every submission, confirmation, replacement and
+ * failure.
+ */
+export class TransactionManager extends EventEmitter {
+  private logger = createLogger('Loom');
+  private config: LoomConfig['transactions'];
+  private nonce?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+  private spent = 0n;
+
+  constructor(
+    private signer: AccountSigner,
+    config: LoomConfig
+  ) {
+    super();
+    this.config = config.transactions;
+  }
+
+  /** The shared manager for `signer`'s address. */
+  static forSigner(
+    signer: AccountSigner,
+    config: LoomConfig
+  ): TransactionManager {
+    const key = signer.address.toLowerCase();
+    let manager = managers.get(key);
+    if (!manager) {
+      manager = new TransactionManager(signer, config);
+      managers.set(key, manager);
+    }
+    return manager;
+  }
+
+  /** Reset the per-run gas spend of every shared manager. */
+  static startRun(): void {
+    for (const manager of managers.values()) manager.startRun();
+  }
+
+  startRun(): void {
+    this.spent = 0n;
+  }
+
+  /** Native token spent on gas since the last startRun(), in wei. */
+  get gasSpent(): bigint {
+    return this.spent;
+  }
+
+  /**
+   * Send `method(...args)` on `contract` and wait for it (or a replacement)
+   * to be mined. Sends are queued so nonces go out in order. Throws
+   * TransactionError when the gas budget would be exceeded, the transaction
+   * times out after every replacement, is cancelled or reverts; estimation
+   * errors (reverts before sending) are thrown as they come from ethers.
+   */
+  send(
+    contract: ethers.BaseContract,
+    method: string,
+    args: unknown[],
+    label: string = method
+  ): Promise<ethers.TransactionReceipt> {
+    const result = this.queue.then(() =>
+      this.sendNow(contract, method, args, label)
+    );
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendNow(
+    contract: ethers.BaseContract,
+    method: string,
+    args: unknown[],
+    label: string
+  ): Promise<ethers.TransactionReceipt> {
+    const from = this.signer.address;
+    const request = await contract
+      .getFunction(method)
+      .populateTransaction(...args);
+    const to = ethers.getAddress(String(request.to));
+    const event = (e: Omit<TransactionEvent, 'label' | 'from' | 'timestamp'>) =>
+      this.record({ label, from, timestamp: Date.now(), ...e });
+
+    const sent: SentTransaction[] = [];
+    let nonce: number | undefined;
+    try {
+      const estimate = await this.signer.estimateGas({ ...request, from });
+      const gasLimit =
+        (estimate * BigInt(Math.round(this.config.gasLimitMultiplier * 100))) /
+        100n;
+      let fees = await this.fees();
+      const budget = this.budget();
+      if (
+        budget !== undefined &&
+        this.spent + gasLimit * fees.maxFeePerGas > budget
+      ) {
+        const error = `gas budget of ${ethers.formatEther(budget)} per run would be exceeded (spent ${ethers.formatEther(this.spent)})`;
+        event({ type: 'failed', to, error });
+        throw new TransactionError(`${label}: ${error}`, 'gas-budget');
+      }
+
+      nonce = await this.nextNonce();
+      const base = {
+        to,
+        data: request.data,
+        value: request.value ?? 0n,
+        gasLimit,
+        nonce,
+        type: 2,
+      };
+      const tx = await this.signer.sendTransaction({ ...base, ...fees });
+      this.nonce = nonce + 1;
+      sent.push({ hash: tx.hash, fees });
+      event({
+        type: 'submitted',
+        to,
+        nonce,
+        hash: tx.hash,
+        ...feeFields(fees),
+      });
+
+      for (let attempt = 0; ; attempt++) {
+        const mined = await this.waitForAny(sent);
+        if (mined) {
+          return this.confirm(mined.receipt, mined.sent, (e) =>
+            event({ to, nonce, ...e })
+          );
+        }
+        if (attempt >= this.config.maxReplacements) {
+          // The nonce may still be pending; re-read it on the next send
+          this.nonce = undefined;
+          const last = sent[sent.length - 1].hash;
+          const error = `not mined within ${this.config.confirmationTimeoutMs}ms after ${sent.length - 1} replacement(s)`;
+          event({ type: 'failed', to, nonce, hash: last, error });
+          throw new TransactionError(`${label}: ${error}`, 'timeout', last);
+        }
+
+        const previous = sent[sent.length - 1];
+        const bumped = this.bump(previous.fees);
+        if (bumped.maxFeePerGas <= previous.fees.maxFeePerGas) {
+          this.logger.warn(
+            `${label}: transaction ${previous.hash} not mined and the fee cap is reached; waiting again`
+          );
+          continue;
+        }
+        fees = bumped;
+        const action = this.config.stuckAction;
+        const replacement =
+          action === 'cancel'
+            ? { to: from, data: '0x', value: 0n, gasLimit: 21_000n, nonce }
+            : base;
+        try {
+          const next = await this.signer.sendTransaction({
+            ...replacement,
+            type: 2,
+            ...fees,
+          });
+          sent.push({ hash: next.hash, replacement: action, fees });
+          event({
+            type: 'replaced',
+            to,
+            nonce,
+            hash: previous.hash,
+            replacedBy: next.hash,
+            replacement: action,
+            ...feeFields(fees),
+          });
+        } catch (error) {
+          // e.g. the original was mined meanwhile; the next wait finds it
+          this.logger.warn(
+            `${label}: could not replace ${previous.hash}: ${(error as Error).message}`
+          );
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof TransactionError)) {
+        // Failed estimate, or a send the node rejected (e.g. nonce too low)
+        if (nonce !== undefined) this.nonce = undefined;
+        if (sent.length === 0) {
+          const message =
+            (error as { shortMessage?: string }).shortMessage ??
+            (error as Error).message;
+          event({ type: 'failed', to, nonce, error: message });
+        }
+      }
+      throw error;
+    }
+  }
+
+  private confirm(
+    receipt: ethers.TransactionReceipt,
+    sent: SentTransaction,
+    event: (
+      e: Omit<TransactionEvent, 'label' | 'from' | 'to' | 'timestamp'>
+    ) => void
+  ): ethers.TransactionReceipt {
+    const cost = receipt.gasUsed * receipt.gasPrice;
+    this.spent += cost;
+    const fields = {
+      hash: receipt.hash,
+      replacement: sent.replacement,
+      gasUsed: receipt.gasUsed.toString(),
+      cost: cost.toString(),
+    };
+
+    if (receipt.status !== 1) {
+      event({ type: 'failed', ...fields, error: 'reverted' });
+      throw new TransactionError(
+        `Transaction ${receipt.hash} reverted`,
+        'reverted',
+        receipt.hash
+      );
+    }
+    event({ type: 'confirmed', ...fields });
+    if (sent.replacement === 'cancel') {
+      throw new TransactionError(
+        `Transaction cancelled by ${receipt.hash}`,
+        'cancelled',
+        receipt.hash
+      );
+    }
+    return receipt;
+  }
+
+  // Poll every hash sent at this nonce until one is mined or time runs out
+  private async waitForAny(
+    sent: SentTransaction[]
+  ): Promise<
+    { receipt: ethers.TransactionReceipt; sent: SentTransaction } | undefined
+  > {
+    const provider = this.signer.provider!;
+    const { confirmationTimeoutMs } = this.config;
+    const interval = Math.min(2000, Math.max(10, confirmationTimeoutMs / 10));
+    const deadline = Date.now() + confirmationTimeoutMs;
+    for (;;) {
+      for (const entry of sent) {
+        const receipt = await provider.getTransactionReceipt(entry.hash);
+        if (receipt) return { receipt, sent: entry };
+      }
+      if (Date.now() >= deadline) return undefined;
+      await sleep(interval);
+    }
+  }
+
+  private async nextNonce(): Promise<number> {
+    if (this.nonce === undefined) {
+      this.nonce = await this.signer.getNonce('pending');
+    }
+    return this.nonce;
+  }
+
+  private async fees(): Promise<Fees> {
+    const feeData = await this.signer.provider!.getFeeData();
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 0n;
+    return this.cap({ maxFeePerGas, maxPriorityFeePerGas });
+  }
+
+  private bump(fees: Fees): Fees {
+    const factor = BigInt(Math.round((100 + this.config.feeBumpPercent) * 100));
+    return this.cap({
+      maxFeePerGas: (fees.maxFeePerGas * factor) / 10_000n,
+      maxPriorityFeePerGas: (fees.maxPriorityFeePerGas * factor) / 10_000n,
+    });
+  }
+
+  private cap(fees: Fees): Fees {
+    const gwei = (value?: number) =>
+      value === undefined
+        ? undefined
+        : ethers.parseUnits(String(value), 'gwei');
+    const maxFee = gwei(this.config.maxFeePerGasGwei);
+    const maxPriority = gwei(this.config.maxPriorityFeePerGasGwei);
+    let { maxFeePerGas, maxPriorityFeePerGas } = fees;
+    if (maxFee !== undefined && maxFeePerGas > maxFee) maxFeePerGas = maxFee;
+    if (maxPriority !== undefined && maxPriorityFeePerGas > maxPriority) {
+      maxPriorityFeePerGas = maxPriority;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas)
+      maxPriorityFeePerGas = maxFeePerGas;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private budget(): bigint | undefined {
+    const { maxGasSpendPerRun } = this.config;
+    return maxGasSpendPerRun ? ethers.parseEther(maxGasSpendPerRun) : undefined;
+  }
+
+  private record(event: TransactionEvent): void {
+    const details = [
+      event.nonce !== undefined ? `nonce=${event.nonce}` : '',
+      event.hash ? `hash=${event.hash}` : '',
+      event.replacedBy
+        ? `replacedBy=${event.replacedBy} (${event.replacement})`
+        : '',
+      event.maxFeePerGas
+        ? `maxFee=${ethers.formatUnits(event.maxFeePerGas, 'gwei')} gwei`
+        : '',
+      event.cost ? `cost=${ethers.formatEther(event.cost)}` : '',
+      event.error ? `error=${event.error}` : '',
+    ]
+      .filter(Boolean)
+      .join(', ');
+    const message = `Transaction ${event.type}: ${event.label} (${details})`;
+    if (event.type === 'failed') this.logger.warn(message);
+    else this.logger.info(message);
+    this.emit('transaction', event);
+  }
+}
+
+function feeFields(fees: Fees) {
+  return {
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+  };
+}
@@ -0,0 +1,181 @@
+import { createLogger } from '@ts-bots/shared';
+import {
+  LoomConfig,
+  LPPosition,
+  StoredPosition,
+  TraderPosition,
+} from '../types';
+import { LPManager } from './LPManager';
+import { PositionStore } from './PositionStore';
+import { SignerPool } from './SignerPool';
+import { TraderManager } from './TraderManager';
+
+/**
+ * Pre-expiry schedule for stored positions: once a market is within
+ * windDown.decreaseSeconds of its endTime, remove decreaseFraction of the
+ * position (LP liquidity or trader size) once; within closeSeconds, close it.
+ * New positions and rebalances stop inside the widest configured window so a
+ * rebalance never re-deploys a position that was just wound down.
+ */
+export class WindDownManager {
+  private logger = createLogger('Loom');
+
+  constructor(
+    private config: LoomConfig,
+    private store: PositionStore,
+    private signers: SignerPool
+  ) {}
+
+  /** Whether a market ending at endTime (unix seconds) may take new positions. */
+  allowsNewPosition(
+    endTime: number,
+    now = Math.floor(Date.now() / 1000)
+  ): boolean {
+    const { noNewPositionsSeconds, decreaseSeconds, closeSeconds } =
+      this.config.windDown;
+    return (
+      endTime - now >
+      Math.max(noNewPositionsSeconds, decreaseSeconds, closeSeconds)
+    );
+  }
+
+  async run(): Promise<void> {
+    const { decreaseSeconds, closeSeconds } = this.config.windDown;
+    if (decreaseSeconds <= 0 && closeSeconds <= 0) return;
+
+    const managers = new Map<string, LPManager>();
+    const endTimes = new Map<string, number>();
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const record of this.store.list({ active: true })) {
+      try {
+        // One LPManager per market group and owning account
+        const signer = this.signers.forAddress(record.owner);
+        const managerKey = `${record.marketGroupAddress}:${signer.address}`;
+        let lpManager = managers.get(managerKey);
+        if (!lpManager) {
+          lpManager = new LPManager(
+            this.config,
+            record.marketGroupAddress,
+            signer,
+            { store: this.store }
+          );
+          managers.set(managerKey, lpManager);
+        }
+
+        const key = `${record.marketGroupAddress}:${record.marketId}`;
+        let endTime = endTimes.get(key);
+        if (endTime === undefined) {
+          const marketData = await lpManager.getMarketData(
+            BigInt(record.marketId)
+          );
+          endTime = Number(marketData.endTime);
+          endTimes.set(key, endTime);
+        }
+
+        // Past endTime positions can only be settled, not traded
+        const remaining = endTime - now;
+        if (remaining <= 0) continue;
+
+        if (closeSeconds > 0 && remaining <= closeSeconds) {
+          await this.close(lpManager, record, remaining);
+        } else if (
+          decreaseSeconds > 0 &&
+          remaining <= decreaseSeconds &&
+          !record.windDownAt
+        ) {
+          await this.decrease(lpManager, record, remaining);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Wind-down of position ${record.tokenId} failed, will retry next run:`,
+          error
+        );
+      }
+    }
+  }
+
+  private async close(
+    lpManager: LPManager,
+    record: StoredPosition,
+    remaining: number
+  ): Promise<void> {
+    this.logger.info(
+      `Market ${record.marketId} ends in ${formatHours(remaining)}: closing position ${record.tokenId}`
+    );
+    if (process.env.DRY_RUN === 'true') {
+      this.logger.info('DRY RUN enabled: skipping wind-down close.');
+      return;
+    }
+    if (record.kind === 'trader') {
+      await this.traderManager(lpManager).closeTraderPosition(
+        toTraderPosition(record)
+      );
+    } else {
+      await lpManager.closeLPPosition(toLPPosition(record));
+    }
+  }
+
+  private async decrease(
+    lpManager: LPManager,
+    record: StoredPosition,
+    remaining: number
+  ): Promise<void> {
+    const { decreaseFraction } = this.config.windDown;
+    this.logger.info(
+      `Market ${record.marketId} ends in ${formatHours(remaining)}: decreasing position ${record.tokenId} by ${(decreaseFraction * 100).toFixed(0)}%`
+    );
+    if (process.env.DRY_RUN === 'true') {
+      this.logger.info('DRY RUN enabled: skipping wind-down decrease.');
+      return;
+    }
+    if (record.kind === 'trader') {
+      const position = toTraderPosition(record);
+      const keep = BigInt(Math.round((1 - decreaseFraction) * 10_000));
+      await this.traderManager(lpManager).modifyTraderPosition(
+        position,
+        (position.size * keep) / 10_000n
+      );
+    } else {
+      await lpManager.decreaseLPPosition(
+        toLPPosition(record),
+        decreaseFraction
+      );
+    }
+    this.store.update(record.marketGroupAddress, record.tokenId, {
+      windDownAt: Date.now(),
+    });
+  }
+
+  private traderManager(lpManager: LPManager): TraderManager {
+    return new TraderManager(this.config, lpManager, { store: this.store });
+  }
+}
+
+function toLPPosition(record: StoredPosition): LPPosition {
+  return {
+    id: `position-${record.tokenId}`,
+    marketId: record.marketId,
+    tokenId: record.tokenId,
+    lowerTick: record.lowerTick,
+    upperTick: record.upperTick,
+    liquidity: record.liquidity,
+    targetPrice: record.targetPrice,
+    createdAt: record.createdAt,
+    lastUpdated: record.lastUpdated,
+    isActive: true,
+  };
+}
+
+function toTraderPosition(record: StoredPosition): TraderPosition {
+  return {
+    tokenId: record.tokenId,
+    marketId: record.marketId,
+    size: BigInt(record.size ?? '0'),
+    collateralAmount: BigInt(record.collateralAmount),
+  };
+}
+
+function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
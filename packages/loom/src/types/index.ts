@@ -1,17 +1,119 @@
+import type { SapienceMarket } from '@ts-bots/shared';
+
+/** One account the bot signs with; see SignerPool. */
+export type AccountSignerConfig =
+  | { type: 'private-key'; privateKey: string }
+  // Encrypted JSON keystore; the passphrase comes inline or from a file
+  | { type: 'keystore'; path: string; password?: string; passwordFile?: string }
+  // External JSON-RPC signer: Clef (account_*) or eth_signTransaction style
+  | { type: 'remote'; url: string; api: 'clef' | 'eth'; address?: string };
+
+export type SignerConfig =
+  | AccountSignerConfig
+  | { type: 'pool'; members: AccountSignerConfig[] };
+
 export interface LoomConfig {
   blockchain: {
-    rpcUrl: string;
-    privateKey: string;
+    rpcUrls: string[];
+    signer: SignerConfig;
     chainId: number;
   };
+  rpc: {
+    // fallback: one endpoint at a time, moving on when it fails;
+    // quorum: ask several and use the answer enough of them agree on
+    mode: 'fallback' | 'quorum';
+    quorum?: number;
+    maxRetries: number;
+    retryBaseDelayMs: number;
+    timeoutMs: number;
+    // Requests per second per endpoint; 0 for no limit
+    rateLimit: number;
+  };
   lpManagement: {
     concentrationRange: number;
     deviationThreshold: number;
     defaultCollateralAmount: string;
+    rebalanceEnabled: boolean;
+    confidence: {
+      minRangeScale: number;
+      maxRangeScale: number;
+      minSizeFactor: number;
+    };
   };
   riskManagement: {
     cooldownPeriod: number;
     emergencyStopThreshold: number;
+    emergencyCloseAll: boolean;
+    maxPositions: number;
+    maxCollateralPerGroup?: string;
+    maxTotalCollateral?: string;
+  };
+  execution: {
+    liquiditySlippageBps: number;
+    tradeSlippageBps: number;
+    deadlineSeconds: number;
+    simulate: boolean;
+  };
+  // Fee caps in gwei (unset = the network's suggestion); maxGasSpendPerRun
+  // is in the native token (e.g. "0.01" ETH) per agent run, unset = none
+  transactions: {
+    maxFeePerGasGwei?: number;
+    maxPriorityFeePerGasGwei?: number;
+    gasLimitMultiplier: number;
+    confirmationTimeoutMs: number;
+    maxReplacements: number;
+    feeBumpPercent: number;
+    stuckAction: 'speed-up' | 'cancel';
+    maxGasSpendPerRun?: string;
+  };
+  storage: {
+    dataDir: string;
+  };
+  easMonitoring: {
+    contractAddress: string;
+    schemaId: string;
+    targetAttesters: string[];
+    pollingIntervalMs: number;
+    startBlock?: number;
+    maxBlockRange: number;
+  };
+  easPublishing: {
+    enabled: boolean;
+    dryRun: boolean;
+    minChange: number;
+  };
+  settlement: {
+    enabled: boolean;
+  };
+  discovery: {
+    resyncIntervalMs: number;
+    // First delay before retrying a market whose processing failed
+    retryDelayMs: number;
+  };
+  // Seconds before a market's endTime; 0 disables that step
+  windDown: {
+    noNewPositionsSeconds: number;
+    decreaseSeconds: number;
+    decreaseFraction: number;
+    closeSeconds: number;
+  };
+  trading: {
+    // lp: concentrated liquidity around the forecast; directional: trader
+    // positions when the forecast and pool price disagree
+    strategy: 'lp' | 'directional';
+    edgeThreshold: number;
+    exitEdge: number;
+    maxCollateral: string;
+  };
+  // fixed: defaultCollateralAmount / trading.maxCollateral per position;
+  // bankroll and kelly size from the free balance. Collateral amounts in
+  // config are amount specs ("100 USDC", base units), see utils/amounts
+  sizing: {
+    mode: 'fixed' | 'bankroll' | 'kelly';
+    bankrollFraction: number;
+    kellyFraction: number;
+    minCollateral?: string;
+    maxCollateral?: string;
   };
 }
 
@@ -28,12 +130,124 @@ export interface LPPosition {
   isActive: boolean;
 }
 
+/** A market found by MarketDiscovery, kept until handled or expired. */
+export interface DiscoveredMarket {
+  market: SapienceMarket;
+  status: 'pending' | 'handled';
+  firstSeen: number;
+  attempts: number; // deferrals since it was found
+  failures?: number; // consecutive failed attempts
+  lastAttempt?: number;
+  retryAt?: number; // pending markets wait until then
+  reason?: string; // why it was last deferred or skipped for good
+}
+
+export interface StoredPosition {
+  tokenId: number;
+  kind?: 'lp' | 'trader'; // absent on records written before trader support
+  size?: string; // trader positions: signed vBase size
+  marketGroupAddress: string;
+  marketId: string;
+  lowerTick: number;
+  upperTick: number;
+  liquidity: string;
+  targetPrice: number;
+  reasoning?: string;
+  collateralAmount: string; // held now, after any decreases
+  depositedCollateral?: string; // opening plus added collateral; absent on older records
+  collateralAddress?: string; // lowercase; absent on older records
+  owner?: string; // lowercase account holding the NFT; absent on older records
+  createTxHash?: string;
+  closeTxHash?: string;
+  windDownAt?: number; // when the pre-expiry decrease was applied
+  withdrawnCollateral?: string; // returned by decreases, then by settlement
+  // Set once the position is settled after its market resolved
+  settleTxHash?: string;
+  realizedPnl?: string; // withdrawnCollateral - depositedCollateral
+  createdAt: number;
+  closedAt?: number;
+  lastUpdated: number;
+  isActive: boolean;
+}
+
+/**
+ * Emitted by TransactionManager for every transaction it handles. Amounts are
+ * wei strings; `hash` and `nonce` are absent when nothing was submitted.
+ */
+export interface TransactionEvent {
+  type: 'submitted' | 'confirmed' | 'replaced' | 'failed';
+  label: string;
+  from: string;
+  to: string;
+  nonce?: number;
+  hash?: string;
+  replacedBy?: string; // replaced: hash of the replacement
+  replacement?: 'speed-up' | 'cancel';
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasUsed?: string;
+  cost?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface TraderPosition {
+  tokenId: number;
+  marketId: string;
+  size: bigint; // signed: positive is long, negative is short
+  collateralAmount: bigint;
+}
+
+export interface IndexedPosition {
+  tokenId: number;
+  marketGroupAddress: string;
+  owner: string; // lowercase
+  marketId: string;
+  kind: number; // 1=LP, 2=Trader
+  isSettled: boolean;
+  depositedCollateralAmount: bigint;
+  vQuoteAmount: bigint;
+  vBaseAmount: bigint;
+}
+
+export interface PredictionAttestation {
+  uid: string;
+  attester: string;
+  time: number;
+  blockNumber: number;
+  marketAddress: string;
+  marketId: bigint;
+  questionId: string;
+  prediction: bigint; // sqrtPriceX96 of the predicted price
+  likelihood: number; // prediction decoded to a price (0..1 on binary markets)
+  comment: string;
+}
+
+// Market-group metadata that drives tick selection
+export interface MarketPriceParams {
+  // Numeric (scalar) market: prices are values in the market's units
+  numeric: boolean;
+  tickSpacing: number;
+  minTick: number;
+  maxTick: number;
+  minPrice: number; // minPriceD18 scaled to a plain number
+  maxPrice: number; // maxPriceD18 scaled to a plain number
+}
+
 export interface PriceRange {
   lower: number;
   upper: number;
   center: number;
 }
 
+// ERC20 metadata from TokenRegistry
+export interface TokenInfo {
+  address: string; // lowercase
+  symbol: string;
+  decimals: number;
+  name: string;
+}
+
 export interface MarketData {
   marketId: bigint;
   startTime: bigint;
@@ -53,3 +267,72 @@ export interface MarketData {
   currentSqrtPriceX96: bigint;
   collateralAddress: string;
 }
+
+// A resolved market replayed by the backtester
+export interface BacktestMarket {
+  marketGroupAddress: string;
+  marketId: string;
+  question: string;
+  claimYes?: string;
+  claimNo?: string;
+  numeric?: boolean;
+  tickSpacing?: number; // default 200
+  minPrice?: number; // default 0
+  maxPrice?: number; // default 1
+  minTick?: number; // default: minPrice (at least 0.0001) as a tick
+  maxTick?: number; // default: maxPrice as a tick
+  feeRate?: number; // default 0.01
+  lpShare?: number; // share of in-range fees earned, default 1
+  minCollateral?: string; // amount spec
+  endTime: number; // unix seconds
+  settlementPrice: number;
+  // Pool price path, unix seconds
+  prices: Array<{ timestamp: number; price: number }>;
+  // Recorded forecast: probabilityYes for binary, estimate for numeric
+  forecast?: {
+    probabilityYes?: number;
+    estimate?: number;
+    lower?: number;
+    upper?: number;
+    confidence?: number;
+    reasoning?: string;
+  };
+}
+
+export interface BacktestFixture {
+  collateral: { symbol: string; decimals: number; name?: string };
+  bankroll: string; // amount spec
+  markets: BacktestMarket[];
+}
+
+export interface BacktestMarketResult {
+  marketId: string;
+  marketGroupAddress: string;
+  positions: number;
+  collateral: number; // token units, summed over positions
+  pnl: number; // including fees
+  fees: number;
+  skipped?: string;
+}
+
+export interface BacktestReport {
+  label: string;
+  concentrationRange: number;
+  sizingMode: LoomConfig['sizing']['mode'];
+  startBankroll: number;
+  endBankroll: number;
+  pnl: number;
+  fees: number;
+  returnPct: number;
+  positions: number;
+  rebalances: number;
+  peakCapital: number; // most collateral locked at once
+  capitalUtilization: number; // time-weighted locked / start bankroll
+  // Forecast calibration over binary markets
+  brierScore?: number;
+  logLoss?: number;
+  // Numeric markets: |estimate - settlement| / price range, interval hits
+  numericError?: number;
+  intervalCoverage?: number;
+  markets: BacktestMarketResult[];
+}
@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { TokenInfo } from '../types';
+
+interface AmountEntry {
+  value: string;
+  symbol?: string; // uppercase; absent for base-unit entries
+}
+
+/**
+ * Parse a configured collateral amount: comma-separated entries, each either
+ * an integer in the token's base units (`1000000000000000000`, any token) or
+ * a decimal in token units followed by the token symbol (`100 USDC`). Throws
+ * on anything else so typos fail at startup.
+ */
+export function parseAmountSpec(spec: string): AmountEntry[] {
+  const entries = spec
+    .split(',')
+    .map((e) => e.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^(\d+(?:\.\d+)?)(?:\s+([A-Za-z0-9._-]+))?$/);
+      if (!match || (!match[2] && match[1].includes('.'))) {
+        throw new Error(
+          `Invalid amount "${entry}" (expected base units like 1000000 or token units like "100 USDC")`
+        );
+      }
+      return { value: match[1], symbol: match[2]?.toUpperCase() };
+    });
+  if (entries.length === 0) throw new Error(`Invalid amount "${spec}"`);
+  return entries;
+}
+
+/**
+ * Resolve a configured amount for one token: the entry naming its symbol,
+ * else the base-unit entry. Throws when neither exists.
+ */
+export function resolveAmount(spec: string, token: TokenInfo): bigint {
+  const entries = parseAmountSpec(spec);
+  const symbol = token.symbol.toUpperCase();
+  const named = entries.find((e) => e.symbol === symbol);
+  if (named) return ethers.parseUnits(named.value, token.decimals);
+  const base = entries.find((e) => e.symbol === undefined);
+  if (base) return BigInt(base.value);
+  throw new Error(`No ${token.symbol} amount in "${spec}"`);
+}
+
+/** `1234500` with a 6-decimal USDC token -> `1.2345 USDC`. */
+export function formatAmount(
+  amount: bigint | string,
+  token: TokenInfo
+): string {
+  return `${ethers.formatUnits(BigInt(amount), token.decimals)} ${token.symbol}`;
+}
@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { SAPIENCE_ABI } from '../abis/placeholders';
+
+/**
+ * What a caller should do about a failed Sapience call:
+ * - `skip-market`: the market or position cannot be acted on; move on
+ * - `reduce-size`: retry with less collateral
+ * - `raise-size`: below the market's minimum; retry once sized up to it
+ * - `requote`: prices or time moved; retry once with a fresh quote
+ * - `stop-run`: wallet or configuration problem that affects every market
+ * - `retry-later`: not a known error; retry the market after a backoff
+ */
+export type SapienceErrorAction =
+  | 'skip-market'
+  | 'reduce-size'
+  | 'raise-size'
+  | 'requote'
+  | 'stop-run'
+  | 'retry-later';
+
+const ERROR_ACTIONS: Record<string, SapienceErrorAction> = {
+  ExpiredMarket: 'skip-market',
+  ExpiredMarketNotSettled: 'skip-market',
+  MarketSettled: 'skip-market',
+  MarketNotSettled: 'skip-market',
+  InvalidMarket: 'skip-market',
+  InvalidRange: 'skip-market',
+  InvalidPositionKind: 'skip-market',
+  InvalidPositionId: 'skip-market',
+  PositionAlreadySettled: 'skip-market',
+  InvalidParameter: 'skip-market',
+  InvalidData: 'skip-market',
+  DeltaTradeIsZero: 'skip-market',
+  InsufficientCollateral: 'reduce-size',
+  CollateralLimitReached: 'reduce-size',
+  PositionSizeBelowMin: 'raise-size',
+  CollateralBelowMin: 'raise-size',
+  TransactionExpired: 'requote',
+  PoolPriceOutOfRange: 'requote',
+  TradePriceOutOfBounds: 'requote',
+  NotAccountOwner: 'stop-run',
+  Unauthorized: 'stop-run',
+  InvalidSlippage: 'stop-run',
+  SafeERC20FailedOperation: 'stop-run',
+  AddressInsufficientBalance: 'stop-run',
+};
+
+const sapienceInterface = new ethers.Interface(SAPIENCE_ABI.abi);
+
+export class SapienceError extends Error {
+  constructor(
+    readonly errorName: string,
+    readonly args: Record<string, unknown>,
+    readonly action: SapienceErrorAction,
+    readonly cause?: unknown
+  ) {
+    const formatted = Object.entries(args)
+      .map(([k, v]) => `${k}=${String(v)}`)
+      .join(', ');
+    super(`${errorName}(${formatted})`);
+    this.name = 'SapienceError';
+  }
+}
+
+/**
+ * Decode the revert data carried by an ethers error against the Sapience ABI.
+ * Returns undefined for errors that are not Sapience custom errors (network
+ * failures, plain reverts, ...).
+ */
+export function decodeSapienceError(error: unknown): SapienceError | undefined {
+  if (error instanceof SapienceError) return error;
+
+  const data = findRevertData(error);
+  if (!data) return undefined;
+
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = sapienceInterface.parseError(data);
+  } catch {
+    return undefined;
+  }
+  if (!parsed) return undefined;
+
+  const args: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name || String(i)] = parsed!.args[i];
+  });
+  return new SapienceError(
+    parsed.name,
+    args,
+    ERROR_ACTIONS[parsed.name] ?? 'retry-later',
+    error
+  );
+}
+
+// Revert data sits at different depths depending on provider and call type
+function findRevertData(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  const queue: unknown[] = [error];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object' || seen.has(current)) continue;
+    seen.add(current);
+    const record = current as Record<string, unknown>;
+    if (
+      typeof record.data === 'string' &&
+      ethers.isHexString(record.data) &&
+      record.data.length >= 10
+    ) {
+      return record.data;
+    }
+    queue.push(record.error, record.info, record.cause);
+  }
+  return undefined;
+}
@@ -2,7 +2,7 @@ export class LoomLogger {
   static logStartup(config: any) {
     // This helper was very verbose; keep only a concise summary
     console.log(
-      `Loom startup: chainId=${config.blockchain.chainId}, rpc=${config.blockchain.rpcUrl}, wallet=${config.wallet?.address || 'N/A'}`
+      `Loom startup: chainId=${config.blockchain.chainId}, rpc=${config.blockchain.rpcUrls.length} endpoint(s), wallet=${config.wallet?.address || 'N/A'}`
     );
     console.log(
       `EAS: contract=${config.easMonitoring.contractAddress}, schemaId=${config.easMonitoring.schemaId}`
@@ -14,7 +14,7 @@ export class LoomLogger {
 
   static logAttestationReceived(attestation: any) {
     console.log(
-      `Attestation: market=${attestation.marketAddress} id=${attestation.marketId}, prob=${(attestation.likelihood * 100).toFixed(2)}%, conf=${(attestation.confidence * 100).toFixed(1)}%`
+      `Attestation: market=${attestation.marketAddress} id=${attestation.marketId}, prob=${(attestation.likelihood * 100).toFixed(2)}%, conf=${attestation.confidence !== undefined ? `${(attestation.confidence * 100).toFixed(1)}%` : 'N/A'}`
     );
   }
 
@@ -0,0 +1,167 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { EAS_ABI, EAS_CONFIG } from '../src/abis/placeholders';
+import { loadConfig } from '../src/config';
+import { EASMonitor } from '../src/services/EASMonitor';
+import { getProvider } from '../src/services/RpcProvider';
+import { LoomConfig } from '../src/types';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+const EAS = '0x0000000000000000000000000000000000000ea5';
+const ATTESTER = '0x00000000000000000000000000000000000000a7';
+const GROUP = '0x00000000000000000000000000000000000005a9';
+const eas = new ethers.Interface(EAS_ABI);
+
+interface Attested {
+  uid: string;
+  block: number;
+  marketId: number;
+}
+
+// JSON-RPC node holding the chain head and the Attested events on it
+async function serve(
+  state: () => { head: number; events: Attested[] }
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      const { head, events } = state();
+      let result: unknown;
+      if (method === 'eth_blockNumber') {
+        result = ethers.toQuantity(head);
+      } else if (method === 'eth_getLogs') {
+        const from = Number(params[0].fromBlock);
+        const to = Number(params[0].toBlock);
+        result = events
+          .filter((e) => e.block >= from && e.block <= to)
+          .map((e, i) => {
+            const log = eas.encodeEventLog('Attested', [
+              ethers.ZeroAddress,
+              ATTESTER,
+              e.uid,
+              EAS_CONFIG.SCHEMA_ID,
+            ]);
+            return {
+              ...log,
+              address: EAS,
+              blockNumber: ethers.toQuantity(e.block),
+              blockHash: ethers.zeroPadValue(ethers.toBeHex(e.block), 32),
+              transactionHash: ethers.zeroPadValue(e.uid, 32),
+              transactionIndex: '0x0',
+              logIndex: ethers.toQuantity(i),
+              removed: false,
+            };
+          });
+      } else if (method === 'eth_call') {
+        const [uid] = eas.decodeFunctionData('getAttestation', params[0].data);
+        const event = events.find((e) => e.uid === uid)!;
+        const data = ethers.AbiCoder.defaultAbiCoder().encode(
+          EAS_CONFIG.SCHEMA_STRUCTURE.split(',').map((p) => p.trim()),
+          [GROUP, event.marketId, ethers.ZeroHash, 2n ** 96n, 'test']
+        );
+        result = eas.encodeFunctionResult('getAttestation', [
+          [
+            uid,
+            EAS_CONFIG.SCHEMA_ID,
+            1,
+            0,
+            0,
+            ethers.ZeroHash,
+            ethers.ZeroAddress,
+            ATTESTER,
+            true,
+            data,
+          ],
+        ]);
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+describe('EASMonitor', () => {
+  let server: http.Server;
+  let dataDir: string;
+  let config: LoomConfig;
+  let head: number;
+  let events: Attested[];
+
+  const uid = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+
+  beforeEach(async () => {
+    head = 10;
+    events = [];
+    server = await serve(() => ({ head, events }));
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    const base = loadConfig({ offline: true });
+    const { port } = server.address() as AddressInfo;
+    config = {
+      ...base,
+      blockchain: {
+        ...base.blockchain,
+        rpcUrls: [`http://127.0.0.1:${port}`],
+        chainId: 42161,
+      },
+      rpc: { ...base.rpc, maxRetries: 0 },
+      storage: { ...base.storage, dataDir },
+      easMonitoring: {
+        ...base.easMonitoring,
+        contractAddress: EAS,
+        schemaId: EAS_CONFIG.SCHEMA_ID,
+        targetAttesters: [ATTESTER],
+        startBlock: 1,
+        maxBlockRange: 5,
+      },
+    };
+  });
+
+  afterEach(async () => {
+    (getProvider(config) as ethers.AbstractProvider).destroy();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps attestations pending across restarts until resolved', async () => {
+    events = [
+      { uid: uid(1), block: 3, marketId: 1 },
+      { uid: uid(2), block: 7, marketId: 2 },
+    ];
+    const first = new EASMonitor(config);
+    const polled = await first.poll();
+    expect(polled.map((a) => a.uid)).toEqual([uid(1), uid(2)]);
+    first.resolve(polled[0]);
+
+    // Restarted without acting on market 2
+    const restarted = new EASMonitor(config);
+    expect(await restarted.poll()).toEqual([]);
+    expect(restarted.pending).toMatchObject([
+      { uid: uid(2), marketId: 2n, marketAddress: GROUP },
+    ]);
+  });
+
+  it('keeps only the latest attestation per market', async () => {
+    events = [{ uid: uid(1), block: 3, marketId: 1 }];
+    const monitor = new EASMonitor(config);
+    const [older] = await monitor.poll();
+
+    head = 12;
+    events.push({ uid: uid(2), block: 11, marketId: 1 });
+    // ethers caches the block number for 250ms
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await monitor.poll();
+    // Resolving the superseded attestation leaves the newer one
+    monitor.resolve(older);
+
+    expect(monitor.pending.map((a) => a.uid)).toEqual([uid(2)]);
+  });
+});
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EAS_CONFIG } from '../src/abis/placeholders';
+import { loadConfig } from '../src/config';
+import { EASPublisher } from '../src/services/EASPublisher';
+import { LoomConfig } from '../src/types';
+import { MockChain, MockEAS } from './MockChain';
+
+const EAS = '0x0000000000000000000000000000000000000ea5';
+const GROUP = '0x00000000000000000000000000000000000005a9';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+describe('EASPublisher', () => {
+  let chain: MockChain;
+  let eas: MockEAS;
+  let dataDir: string;
+  let config: LoomConfig;
+  let signer: ethers.HDNodeWallet;
+
+  const forecast = (price: number) => ({
+    marketAddress: GROUP,
+    marketId: 1n,
+    price,
+    sqrtPriceX96: 2n ** 96n,
+    comment: 'test reasoning',
+  });
+
+  beforeEach(() => {
+    chain = new MockChain();
+    eas = chain.deploy(new MockEAS(EAS));
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    const base = loadConfig({ offline: true });
+    config = {
+      ...base,
+      storage: { ...base.storage, dataDir },
+      easMonitoring: { ...base.easMonitoring, contractAddress: EAS },
+      easPublishing: { enabled: true, dryRun: false, minChange: 0.01 },
+    };
+    // Publishing goes through the shared TransactionManager per address, so
+    // each test gets an account of its own
+    signer = ethers.Wallet.createRandom(chain);
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('attests a forecast once until it moves by the minimum change', async () => {
+    const uid = await new EASPublisher(config, signer).publish(forecast(0.6));
+
+    expect(uid).toBe(ethers.zeroPadValue('0x01', 32));
+    expect(eas.attestations).toHaveLength(1);
+    expect(eas.attestations[0].schema).toBe(config.easMonitoring.schemaId);
+    const [marketAddress, marketId, , prediction, comment] =
+      ethers.AbiCoder.defaultAbiCoder().decode(
+        EAS_CONFIG.SCHEMA_STRUCTURE.split(',').map((p) => p.trim()),
+        eas.attestations[0].data
+      );
+    expect(marketAddress).toBe(ethers.getAddress(GROUP));
+    expect(marketId).toBe(1n);
+    expect(prediction).toBe(2n ** 96n);
+    expect(comment).toBe('test reasoning');
+
+    // Restarted: the last published forecast is read back
+    const restarted = new EASPublisher(config, signer);
+    await expect(restarted.publish(forecast(0.605))).resolves.toBeUndefined();
+    expect(eas.attestations).toHaveLength(1);
+    await restarted.publish(forecast(0.62));
+    expect(eas.attestations).toHaveLength(2);
+  });
+
+  it('sends and records nothing on a dry run', async () => {
+    config.easPublishing.dryRun = true;
+
+    await new EASPublisher(config, signer).publish(forecast(0.6));
+
+    expect(chain.calls('attest')).toHaveLength(0);
+    expect(fs.readdirSync(dataDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,379 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { LPManager } from '../src/services/LPManager';
+import { PositionStore } from '../src/services/PositionStore';
+import { TransactionManager } from '../src/services/TransactionManager';
+import { LoomConfig, LPPosition, StoredPosition } from '../src/types';
+import { SapienceError } from '../src/utils/errors';
+import {
+  MockChain,
+  MockERC20,
+  MockPositionManager,
+  MockSapience,
+} from './MockChain';
+
+// Well-known development key (Anvil/Hardhat account 0)
+const PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const WALLET = new ethers.Wallet(PRIVATE_KEY).address;
+const SAPIENCE = '0x00000000000000000000000000000000000005a9';
+const USDC = '0x0000000000000000000000000000000000000dc0';
+const OTHER_GROUP = '0x00000000000000000000000000000000000005aa';
+
+const stored = (
+  marketGroupAddress: string,
+  tokenId: number
+): StoredPosition => ({
+  tokenId,
+  marketGroupAddress,
+  marketId: '1',
+  lowerTick: -8000,
+  upperTick: -6000,
+  liquidity: '100000000',
+  targetPrice: 0.5,
+  collateralAmount: '100000000',
+  createdAt: 0,
+  lastUpdated: 0,
+  isActive: true,
+});
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+describe('LPManager', () => {
+  let chain: MockChain;
+  let usdc: MockERC20;
+  let sapience: MockSapience;
+  let store: PositionStore;
+  let dataDir: string;
+  let config: LoomConfig;
+  let signer: ethers.Wallet;
+  let lpManager: LPManager;
+
+  beforeEach(() => {
+    chain = new MockChain();
+    usdc = chain.deploy(new MockERC20(USDC));
+    sapience = chain.deploy(new MockSapience(SAPIENCE, usdc));
+    sapience.addMarket({ marketId: 1n });
+    sapience.addMarket({ marketId: 2n });
+    usdc.mint(WALLET, 1_000_000_000n);
+
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    store = new PositionStore(path.join(dataDir, 'positions.jsonl'));
+    config = loadConfig({ offline: true });
+    signer = new ethers.Wallet(PRIVATE_KEY, chain);
+    // A manager per chain; the shared one per address would keep old nonces
+    const transactions = new TransactionManager(signer, config);
+    lpManager = new LPManager(config, SAPIENCE, signer, {
+      store,
+      transactions,
+    });
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('createLPPosition', () => {
+    it('approves collateral, creates the position and records it', async () => {
+      const created = jest.fn();
+      lpManager.on('positionCreated', created);
+
+      const position = await lpManager.createLPPosition(
+        1n,
+        -8000,
+        -6000,
+        0.5,
+        '100000000',
+        'test reasoning'
+      );
+
+      expect(position).toMatchObject({
+        tokenId: 1,
+        marketId: '1',
+        lowerTick: -8000,
+        upperTick: -6000,
+        liquidity: '100000000',
+        isActive: true,
+      });
+      expect(created).toHaveBeenCalledWith(position);
+      expect(chain.calls('approve')).toHaveLength(1);
+      expect(chain.calls('approve')[0].args).toEqual([
+        ethers.getAddress(SAPIENCE),
+        ethers.MaxUint256,
+      ]);
+      expect(usdc.balanceOf(WALLET)).toBe(900_000_000n);
+
+      const [create] = chain.calls('createLiquidityPosition');
+      const params = create.args[0];
+      const keep = 10_000n - BigInt(config.execution.liquiditySlippageBps);
+      expect(params.collateralAmount).toBe(100_000_000n);
+      expect(params.minAmountBaseToken).toBe(
+        (params.amountBaseToken * keep) / 10_000n
+      );
+      expect(params.minAmountQuoteToken).toBe(
+        (params.amountQuoteToken * keep) / 10_000n
+      );
+
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        marketGroupAddress: SAPIENCE,
+        marketId: '1',
+        lowerTick: -8000,
+        upperTick: -6000,
+        reasoning: 'test reasoning',
+        collateralAmount: '100000000',
+        collateralAddress: USDC,
+        owner: WALLET.toLowerCase(),
+        createTxHash: create.hash,
+        isActive: true,
+      });
+    });
+
+    it('skips the approval when the allowance covers the amount', async () => {
+      await lpManager.createLPPosition(1n, -8000, -6000, 0.5, '100000000');
+      await lpManager.createLPPosition(2n, -8000, -6000, 0.5, '100000000');
+
+      expect(chain.calls('approve')).toHaveLength(1);
+      expect(chain.calls('createLiquidityPosition')).toHaveLength(2);
+    });
+
+    it('clamps ticks to the market bounds', async () => {
+      sapience.addMarket({ marketId: 3n, minTick: -20000, maxTick: -2000 });
+
+      const position = await lpManager.createLPPosition(
+        3n,
+        -30000,
+        0,
+        0.5,
+        '100000000'
+      );
+
+      expect(position.lowerTick).toBe(-20000);
+      expect(position.upperTick).toBe(-2000);
+      const [create] = chain.calls('createLiquidityPosition');
+      expect(Number(create.args[0].lowerTick)).toBe(-20000);
+      expect(Number(create.args[0].upperTick)).toBe(-2000);
+    });
+
+    it('decodes Sapience reverts without sending a transaction', async () => {
+      sapience.setMinCollateral(500_000_000n);
+
+      const error = await lpManager
+        .createLPPosition(1n, -8000, -6000, 0.5, '100000000')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SapienceError);
+      expect(error.errorName).toBe('CollateralBelowMin');
+      expect(error.action).toBe('raise-size');
+      expect(error.args.minCollateral).toBe(500_000_000n);
+      expect(chain.calls('createLiquidityPosition')).toHaveLength(0);
+      expect(store.get(SAPIENCE, 1)).toBeUndefined();
+    });
+  });
+
+  describe('getCurrentLPPosition', () => {
+    it('returns null when the wallet has no position in the market', async () => {
+      await expect(lpManager.getCurrentLPPosition(1n)).resolves.toBeNull();
+    });
+
+    it('returns the active position with its stored range', async () => {
+      await lpManager.createLPPosition(1n, -8000, -6000, 0.42, '100000000');
+
+      const position = await lpManager.getCurrentLPPosition(1n);
+
+      expect(position).toMatchObject({
+        tokenId: 1,
+        marketId: '1',
+        lowerTick: -8000,
+        upperTick: -6000,
+        targetPrice: 0.42,
+        isActive: true,
+      });
+      await expect(lpManager.getCurrentLPPosition(2n)).resolves.toBeNull();
+    });
+
+    it('reports positions missing from the store with an unknown range', async () => {
+      await lpManager.createLPPosition(1n, -8000, -6000, 0.5, '100000000');
+      const fresh = new LPManager(config, SAPIENCE, signer, {
+        transactions: lpManager.transactions,
+      });
+
+      const position = await fresh.getCurrentLPPosition(1n);
+
+      expect(position).toMatchObject({
+        tokenId: 1,
+        lowerTick: 0,
+        upperTick: 0,
+        targetPrice: 0,
+      });
+    });
+
+    it("keeps another group's position with the same token ID apart", async () => {
+      const other = {
+        ...stored(OTHER_GROUP, 1),
+        lowerTick: -100,
+        upperTick: 100,
+      };
+      store.upsert(other);
+      const position = await lpManager.createLPPosition(
+        1n,
+        -8000,
+        -6000,
+        0.42,
+        '100000000'
+      );
+
+      await expect(lpManager.getCurrentLPPosition(1n)).resolves.toMatchObject({
+        tokenId: 1,
+        lowerTick: -8000,
+        upperTick: -6000,
+        targetPrice: 0.42,
+      });
+      await lpManager.closeLPPosition(position);
+
+      expect(store.get(SAPIENCE, 1)).toMatchObject({ isActive: false });
+      expect(store.get(OTHER_GROUP, 1)).toMatchObject({
+        lowerTick: -100,
+        isActive: true,
+      });
+    });
+
+    it('ignores positions that are not LP positions', async () => {
+      await lpManager.createLPPosition(1n, -8000, -6000, 0.5, '100000000');
+      sapience.setPositionKind(1n, 2);
+
+      await expect(lpManager.getCurrentLPPosition(1n)).resolves.toBeNull();
+    });
+  });
+
+  describe('closeLPPosition', () => {
+    it('closes with the quoted amounts less slippage and updates the store', async () => {
+      const position = await lpManager.createLPPosition(
+        1n,
+        -8000,
+        -6000,
+        0.5,
+        '100000000'
+      );
+      const closed = jest.fn();
+      lpManager.on('positionClosed', closed);
+
+      await lpManager.closeLPPosition(position);
+
+      const [close] = chain.calls('closeLiquidityPosition');
+      const params = close.args[0];
+      expect(params.positionId).toBe(1n);
+      expect(params.amount0Min).toBeGreaterThan(0n);
+      expect(params.tradeSlippage).toBe(
+        BigInt(config.execution.tradeSlippageBps) * 10n ** 14n
+      );
+      expect(position.isActive).toBe(false);
+      expect(closed).toHaveBeenCalledWith(position);
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        isActive: false,
+        closeTxHash: close.hash,
+      });
+      expect(usdc.balanceOf(WALLET)).toBe(1_000_000_000n);
+      await expect(lpManager.getCurrentLPPosition(1n)).resolves.toBeNull();
+    });
+
+    it('leaves positions that are not active LP positions alone', async () => {
+      const position = await lpManager.createLPPosition(
+        1n,
+        -8000,
+        -6000,
+        0.5,
+        '100000000'
+      );
+      sapience.setPositionKind(1n, 2);
+
+      await lpManager.closeLPPosition(position);
+
+      expect(chain.calls('closeLiquidityPosition')).toHaveLength(0);
+      expect(position.isActive).toBe(true);
+    });
+
+    it('requires a token ID', async () => {
+      const position: LPPosition = {
+        id: 'position-0',
+        marketId: '1',
+        tokenId: 0,
+        lowerTick: -8000,
+        upperTick: -6000,
+        liquidity: '0',
+        targetPrice: 0.5,
+        createdAt: 0,
+        lastUpdated: 0,
+        isActive: true,
+      };
+
+      await expect(lpManager.closeLPPosition(position)).rejects.toThrow(
+        'Position token ID is required to close position'
+      );
+    });
+  });
+
+  describe('decreaseLPPosition', () => {
+    it('records the liquidity and collateral left in the position', async () => {
+      chain.deploy(new MockPositionManager(sapience));
+      const position = await lpManager.createLPPosition(
+        1n,
+        -8000,
+        -6000,
+        0.5,
+        '100000000'
+      );
+
+      await lpManager.decreaseLPPosition(position, 0.25);
+
+      const params = chain.calls('decreaseLiquidityPosition')[0].args[0];
+      expect(params.positionId).toBe(1n);
+      expect(params.liquidity).toBe(25_000_000n);
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        liquidity: '75000000',
+        collateralAmount: '75000000',
+        isActive: true,
+      });
+      expect(usdc.balanceOf(WALLET)).toBe(925_000_000n);
+    });
+  });
+
+  describe('extractTokenIdFromReceipt', () => {
+    const transfer = new ethers.Interface([
+      'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+      'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    ]);
+    const receipt = (
+      ...logs: Array<{ topics: string[]; data: string }>
+    ): ethers.TransactionReceipt =>
+      ({ logs }) as unknown as ethers.TransactionReceipt;
+
+    it('finds the mint to the wallet among other logs', () => {
+      const other = ethers.Wallet.createRandom().address;
+      const tokenId = lpManager['extractTokenIdFromReceipt'](
+        receipt(
+          transfer.encodeEventLog('Approval', [WALLET, SAPIENCE, 5n]),
+          transfer.encodeEventLog('Transfer', [ethers.ZeroAddress, other, 6n]),
+          transfer.encodeEventLog('Transfer', [WALLET, other, 7n]),
+          transfer.encodeEventLog('Transfer', [ethers.ZeroAddress, WALLET, 42n])
+        )
+      );
+
+      expect(tokenId).toBe(42);
+    });
+
+    it('throws when the receipt has no mint to the wallet', () => {
+      expect(() =>
+        lpManager['extractTokenIdFromReceipt'](
+          receipt(transfer.encodeEventLog('Transfer', [WALLET, SAPIENCE, 7n]), {
+            topics: [],
+            data: '0x',
+          })
+        )
+      ).toThrow('Could not extract token ID from transaction receipt');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { GraphQLService, SapienceMarket } from '@ts-bots/shared';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { MarketDiscovery } from '../src/services/MarketDiscovery';
+import { PositionStore } from '../src/services/PositionStore';
+import { LoomConfig } from '../src/types';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+const GROUP = '0x00000000000000000000000000000000000000A1';
+const HOUR = 3_600_000;
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+const market = (id: number, endTimestamp?: number): SapienceMarket => ({
+  id,
+  marketId: String(id),
+  marketGroupId: '1',
+  endTimestamp,
+  marketGroup: { address: GROUP, chainId: 42161, collateralAsset: '0xdc0' },
+});
+
+describe('MarketDiscovery', () => {
+  let dataDir: string;
+  let config: LoomConfig;
+  let store: PositionStore;
+  let listed: SapienceMarket[];
+  let queries: Array<Record<string, any>>;
+
+  // Answers like the API: unsettled markets matching the id filter
+  const gql = {
+    paginate: async (_query: unknown, variables: Record<string, any>) => {
+      queries.push(variables.where);
+      const after = variables.where.id?.gt ?? -Infinity;
+      return listed.filter((m) => m.id > after);
+    },
+  } as unknown as Pick<GraphQLService, 'paginate'>;
+  const discovery = () => new MarketDiscovery(config, store);
+  const ids = (markets: SapienceMarket[]) => markets.map((m) => m.id);
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    const base = loadConfig({ offline: true });
+    config = {
+      ...base,
+      storage: { ...base.storage, dataDir },
+      discovery: { resyncIntervalMs: HOUR, retryDelayMs: 60_000 },
+    };
+    store = new PositionStore(path.join(dataDir, 'positions.jsonl'));
+    listed = [market(1), market(2)];
+    queries = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps its cursor and candidates across restarts', async () => {
+    const first = discovery();
+    await first.refresh(gql, T0);
+    first.handled(market(1), undefined, T0);
+
+    listed.push(market(3));
+    const restarted = discovery();
+    await restarted.refresh(gql, T0 + 1000);
+
+    expect(queries[0]).toEqual({ settled: { equals: false } });
+    expect(queries[1]).toEqual({ settled: { equals: false }, id: { gt: 2 } });
+    // 2 was found before the restart but never handled
+    expect(ids(restarted.due(T0 + 1000))).toEqual([2, 3]);
+  });
+
+  it('retries deferred markets, backing off after failures', async () => {
+    const d = discovery();
+    await d.refresh(gql, T0);
+
+    d.deferred(market(1), 'insufficient collateral', false, T0);
+    d.deferred(market(2), 'execution reverted', true, T0);
+    expect(ids(d.due(T0))).toEqual([1]);
+    expect(ids(d.due(T0 + 60_000))).toEqual([1, 2]);
+
+    d.deferred(market(2), 'execution reverted', true, T0 + 60_000);
+    expect(ids(d.due(T0 + 119_000))).toEqual([1]);
+    expect(ids(d.due(T0 + 180_000))).toEqual([1, 2]);
+    expect(
+      d.retryQueue.map((t) => [t.market.id, t.reason, t.attempts])
+    ).toEqual([
+      [1, 'insufficient collateral', 1],
+      [2, 'execution reverted', 2],
+    ]);
+  });
+
+  it('returns handled markets only while a position is held there', async () => {
+    const d = discovery();
+    await d.refresh(gql, T0);
+    d.handled(market(1), 'InvalidRange', T0);
+    d.handled(market(2), undefined, T0);
+    store.upsert({
+      tokenId: 7,
+      marketGroupAddress: GROUP,
+      marketId: '2',
+      lowerTick: 0,
+      upperTick: 0,
+      liquidity: '1',
+      targetPrice: 0.5,
+      collateralAmount: '1',
+      createdAt: T0,
+      lastUpdated: T0,
+      isActive: true,
+    });
+
+    expect(ids(d.due(T0))).toEqual([2]);
+  });
+
+  it('drops expired markets and those a resync no longer lists', async () => {
+    const endsSoon = Math.floor((T0 + 1000) / 1000) + 1;
+    listed = [market(1), market(2, endsSoon), market(3)];
+    const d = discovery();
+    await d.refresh(gql, T0);
+    expect(ids(d.due(T0 + 5000))).toEqual([1, 3]);
+
+    // 3 settles; only the hourly resync notices
+    listed = [market(1)];
+    await d.refresh(gql, T0 + HOUR / 2);
+    expect(ids(d.due(T0 + HOUR / 2))).toEqual([1, 3]);
+    await d.refresh(gql, T0 + HOUR);
+    expect(queries[2]).toEqual({ settled: { equals: false } });
+    expect(ids(d.due(T0 + HOUR))).toEqual([1]);
+  });
+});
@@ -0,0 +1,918 @@
+import { getAmountsForLiquidity, getSqrtRatioAtTick } from '@ts-bots/shared';
+import { ethers } from 'ethers';
+import {
+  EAS_ABI,
+  ERC20_ABI,
+  SAPIENCE_ABI,
+  UNISWAP_POSITION_MANAGER_ABI,
+} from '../src/abis/placeholders';
+
+/**
+ * In-process JSON-RPC chain for tests. Transactions are signed by a real
+ * ethers Wallet, decoded and executed against TypeScript mocks of the
+ * contracts; calls and gas estimates run on a snapshot of contract state, so
+ * staticCall and estimateGas see reverts without changing anything.
+ */
+
+interface CallContext {
+  from: string;
+  timestamp: number;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+export interface MinedCall {
+  hash: string;
+  from: string;
+  to: string;
+  name: string;
+  args: ethers.Result;
+}
+
+const BASE_FEE = ethers.parseUnits('1', 'gwei');
+// Where MockSapience's market group says its Uniswap position manager is
+export const POSITION_MANAGER = '0x0000000000000000000000000000000000000b1d';
+
+class MockRevert extends Error {
+  constructor(readonly data: string) {
+    super('execution reverted');
+  }
+}
+
+export abstract class MockContract<S> {
+  readonly iface: ethers.Interface;
+
+  constructor(
+    readonly address: string,
+    abi: ethers.InterfaceAbi,
+    protected state: S
+  ) {
+    this.iface = new ethers.Interface(abi);
+  }
+
+  snapshot(): S {
+    return structuredClone(this.state);
+  }
+
+  restore(state: S): void {
+    this.state = state;
+  }
+
+  protected revert(name: string, args: unknown[] = []): never {
+    throw new MockRevert(this.iface.encodeErrorResult(name, args));
+  }
+
+  protected emit(ctx: CallContext, name: string, args: unknown[]): void {
+    const { data, topics } = this.iface.encodeEventLog(name, args);
+    ctx.logs.push({ address: this.address, data, topics });
+  }
+}
+
+interface ERC20State {
+  balances: Map<string, bigint>;
+  allowances: Map<string, bigint>;
+}
+
+export class MockERC20 extends MockContract<ERC20State> {
+  constructor(
+    address: string,
+    readonly tokenSymbol = 'USDC',
+    readonly tokenDecimals = 6
+  ) {
+    super(
+      address,
+      [
+        ...ERC20_ABI,
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Approval(address indexed owner, address indexed spender, uint256 value)',
+      ],
+      { balances: new Map(), allowances: new Map() }
+    );
+  }
+
+  mint(to: string, amount: bigint): void {
+    const key = to.toLowerCase();
+    this.state.balances.set(key, (this.state.balances.get(key) ?? 0n) + amount);
+  }
+
+  symbol() {
+    return this.tokenSymbol;
+  }
+
+  decimals() {
+    return this.tokenDecimals;
+  }
+
+  name() {
+    return `Mock ${this.tokenSymbol}`;
+  }
+
+  balanceOf(owner: string) {
+    return this.state.balances.get(owner.toLowerCase()) ?? 0n;
+  }
+
+  allowance(owner: string, spender: string) {
+    return (
+      this.state.allowances.get(
+        `${owner.toLowerCase()}:${spender.toLowerCase()}`
+      ) ?? 0n
+    );
+  }
+
+  approve(spender: string, value: bigint, ctx: CallContext) {
+    this.state.allowances.set(
+      `${ctx.from.toLowerCase()}:${spender.toLowerCase()}`,
+      value
+    );
+    this.emit(ctx, 'Approval', [ctx.from, spender, value]);
+    return true;
+  }
+
+  transfer(to: string, value: bigint, ctx: CallContext) {
+    this.move(ctx.from, to, value, ctx);
+    return true;
+  }
+
+  transferFrom(from: string, to: string, value: bigint, ctx: CallContext) {
+    const allowance = this.allowance(from, ctx.from);
+    if (allowance < value) throw new MockRevert(revertString('allowance'));
+    if (allowance !== ethers.MaxUint256) {
+      this.state.allowances.set(
+        `${from.toLowerCase()}:${ctx.from.toLowerCase()}`,
+        allowance - value
+      );
+    }
+    this.move(from, to, value, ctx);
+    return true;
+  }
+
+  private move(from: string, to: string, value: bigint, ctx: CallContext) {
+    const balance = this.balanceOf(from);
+    if (balance < value) throw new MockRevert(revertString('balance'));
+    this.state.balances.set(from.toLowerCase(), balance - value);
+    this.mint(to, value);
+    this.emit(ctx, 'Transfer', [from, to, value]);
+  }
+}
+
+export interface MockMarket {
+  marketId: bigint;
+  minTick: number;
+  maxTick: number;
+  minPriceD18: bigint;
+  maxPriceD18: bigint;
+  sqrtPriceX96: bigint;
+  endTime: bigint;
+  settled: boolean;
+  settlementPriceD18: bigint;
+  claimStatementNo: string;
+}
+
+interface MockPosition {
+  id: bigint;
+  kind: number;
+  marketId: bigint;
+  owner: string;
+  collateral: bigint;
+  liquidity: bigint;
+  size: bigint; // trader positions, signed
+  lowerTick: number;
+  upperTick: number;
+  isSettled: boolean;
+}
+
+interface SapienceState {
+  tickSpacing: number;
+  minCollateral: bigint;
+  maxTradeSize?: bigint;
+  markets: Map<bigint, MockMarket>;
+  positions: Map<bigint, MockPosition>;
+  nextId: bigint;
+}
+
+/**
+ * The Sapience calls LPManager and TraderManager make. Liquidity equals the
+ * deposited collateral and token amounts follow the Uniswap formulas; a
+ * trader position of size s holds s times the pool price (long) or one less
+ * the price (short) as collateral and settles at the same rate. That is
+ * enough to check what the managers send and record.
+ */
+export class MockSapience extends MockContract<SapienceState> {
+  constructor(
+    address: string,
+    private collateral: MockERC20
+  ) {
+    super(address, SAPIENCE_ABI.abi, {
+      tickSpacing: 200,
+      minCollateral: 0n,
+      markets: new Map(),
+      positions: new Map(),
+      nextId: 1n,
+    });
+  }
+
+  addMarket(market: Partial<MockMarket> & { marketId: bigint }): void {
+    this.state.markets.set(market.marketId, {
+      minTick: -92200,
+      maxTick: 0,
+      minPriceD18: 0n,
+      maxPriceD18: ethers.parseEther('1'),
+      sqrtPriceX96: 56022770974786139918731938227n, // price 0.5
+      endTime: BigInt(Math.floor(Date.now() / 1000) + 86400),
+      settled: false,
+      settlementPriceD18: 0n,
+      claimStatementNo: ethers.hexlify(ethers.toUtf8Bytes('No')),
+      ...market,
+    });
+  }
+
+  setMinCollateral(amount: bigint): void {
+    this.state.minCollateral = amount;
+  }
+
+  setPositionKind(id: bigint, kind: number): void {
+    this.state.positions.get(id)!.kind = kind;
+  }
+
+  /** Trades larger than `size` revert with TradePriceOutOfBounds. */
+  setMaxTradeSize(size: bigint): void {
+    this.state.maxTradeSize = size;
+  }
+
+  settleMarket(id: bigint, settlementPriceD18: bigint): void {
+    const m = this.market(id);
+    m.settled = true;
+    m.settlementPriceD18 = settlementPriceD18;
+  }
+
+  getMarketGroup() {
+    return [ethers.ZeroAddress, this.collateral.address, marketParams()];
+  }
+
+  getMarketGroupTickSpacing() {
+    return this.state.tickSpacing;
+  }
+
+  getMarket(id: bigint) {
+    const m = this.market(id);
+    return [
+      {
+        marketId: m.marketId,
+        startTime: 0n,
+        endTime: m.endTime,
+        pool: ethers.ZeroAddress,
+        quoteToken: ethers.ZeroAddress,
+        baseToken: ethers.ZeroAddress,
+        minPriceD18: m.minPriceD18,
+        maxPriceD18: m.maxPriceD18,
+        baseAssetMinPriceTick: m.minTick,
+        baseAssetMaxPriceTick: m.maxTick,
+        settled: m.settled,
+        settlementPriceD18: m.settlementPriceD18,
+        assertionId: ethers.ZeroHash,
+        claimStatementYesOrNumeric: ethers.hexlify(ethers.toUtf8Bytes('Yes')),
+        claimStatementNo: m.claimStatementNo,
+      },
+      marketParams(),
+    ];
+  }
+
+  getSqrtPriceX96(id: bigint) {
+    return this.market(id).sqrtPriceX96;
+  }
+
+  quoteLiquidityPositionTokens(
+    marketId: bigint,
+    collateral: bigint,
+    sqrtPriceX96: bigint,
+    sqrtPriceAX96: bigint,
+    sqrtPriceBX96: bigint
+  ) {
+    this.market(marketId);
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      sqrtPriceX96,
+      sqrtPriceAX96,
+      sqrtPriceBX96,
+      collateral
+    );
+    return [amount0, amount1, collateral];
+  }
+
+  getTokensFromLiquidity(
+    liquidity: bigint,
+    sqrtPriceX96: bigint,
+    sqrtPriceAX96: bigint,
+    sqrtPriceBX96: bigint
+  ) {
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      sqrtPriceX96,
+      sqrtPriceAX96,
+      sqrtPriceBX96,
+      liquidity
+    );
+    return [amount0, amount1];
+  }
+
+  createLiquidityPosition(params: ethers.Result, ctx: CallContext) {
+    const m = this.market(params.marketId);
+    if (params.deadline < BigInt(ctx.timestamp)) {
+      this.revert('TransactionExpired', [params.deadline, ctx.timestamp]);
+    }
+    if (params.collateralAmount < this.state.minCollateral) {
+      this.revert('CollateralBelowMin', [
+        params.collateralAmount,
+        this.state.minCollateral,
+      ]);
+    }
+    if (Number(params.lowerTick) < m.minTick) {
+      this.revert('InvalidRange', [params.lowerTick, m.minTick]);
+    }
+    if (Number(params.upperTick) > m.maxTick) {
+      this.revert('InvalidRange', [params.upperTick, m.maxTick]);
+    }
+    this.collateral.transferFrom(
+      ctx.from,
+      this.address,
+      params.collateralAmount,
+      {
+        ...ctx,
+        from: this.address,
+      }
+    );
+
+    const id = this.state.nextId++;
+    this.state.positions.set(id, {
+      id,
+      kind: 1,
+      marketId: params.marketId,
+      owner: ctx.from.toLowerCase(),
+      collateral: params.collateralAmount,
+      liquidity: params.collateralAmount,
+      lowerTick: Number(params.lowerTick),
+      upperTick: Number(params.upperTick),
+      size: 0n,
+      isSettled: false,
+    });
+    this.emit(ctx, 'Transfer', [ethers.ZeroAddress, ctx.from, id]);
+    return [
+      id,
+      params.collateralAmount,
+      params.collateralAmount,
+      id,
+      params.collateralAmount,
+      params.amountBaseToken,
+      params.amountQuoteToken,
+    ];
+  }
+
+  closeLiquidityPosition(params: ethers.Result, ctx: CallContext) {
+    const p = this.state.positions.get(params.positionId);
+    if (!p) this.revert('InvalidPositionId', [params.positionId]);
+    if (p.owner !== ctx.from.toLowerCase()) {
+      this.revert('NotAccountOwner', [params.positionId, ctx.from]);
+    }
+    if (p.kind !== 1) this.revert('InvalidPositionKind');
+    const m = this.market(p.marketId);
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      m.sqrtPriceX96,
+      getSqrtRatioAtTick(p.lowerTick),
+      getSqrtRatioAtTick(p.upperTick),
+      p.liquidity
+    );
+    if (amount0 < params.amount0Min || amount1 < params.amount1Min) {
+      this.revert('PoolPriceOutOfRange', [m.sqrtPriceX96, 0n, 0n]);
+    }
+
+    this.state.positions.delete(p.id);
+    this.emit(ctx, 'Transfer', [ctx.from, ethers.ZeroAddress, p.id]);
+    this.collateral.transfer(ctx.from, p.collateral, {
+      ...ctx,
+      from: this.address,
+    });
+    return [amount0, amount1, p.collateral];
+  }
+
+  // Releases collateral in proportion to the liquidity removed
+  decreaseLiquidityPosition(params: ethers.Result, ctx: CallContext) {
+    const p = this.state.positions.get(params.positionId);
+    if (!p) this.revert('InvalidPositionId', [params.positionId]);
+    if (p.owner !== ctx.from.toLowerCase()) {
+      this.revert('NotAccountOwner', [params.positionId, ctx.from]);
+    }
+    if (p.kind !== 1) this.revert('InvalidPositionKind');
+    if (params.deadline < BigInt(ctx.timestamp)) {
+      this.revert('TransactionExpired', [params.deadline, ctx.timestamp]);
+    }
+    const m = this.market(p.marketId);
+    const { amount0, amount1 } = getAmountsForLiquidity(
+      m.sqrtPriceX96,
+      getSqrtRatioAtTick(p.lowerTick),
+      getSqrtRatioAtTick(p.upperTick),
+      params.liquidity
+    );
+    if (amount0 < params.minBaseAmount || amount1 < params.minQuoteAmount) {
+      this.revert('PoolPriceOutOfRange', [m.sqrtPriceX96, 0n, 0n]);
+    }
+
+    const released = (p.collateral * params.liquidity) / p.liquidity;
+    p.liquidity -= params.liquidity;
+    p.collateral -= released;
+    this.collateral.transfer(ctx.from, released, {
+      ...ctx,
+      from: this.address,
+    });
+    return [amount0, amount1, p.collateral];
+  }
+
+  quoteCreateTraderPosition(marketId: bigint, size: bigint) {
+    const m = this.market(marketId);
+    const required = this.requiredCollateral(m, size);
+    return [required, priceD18(m), priceD18(m)];
+  }
+
+  createTraderPosition(params: ethers.Result, ctx: CallContext) {
+    const m = this.market(params.marketId);
+    if (params.deadline < BigInt(ctx.timestamp)) {
+      this.revert('TransactionExpired', [params.deadline, ctx.timestamp]);
+    }
+    const required = this.requiredCollateral(m, params.size);
+    if (required > params.maxCollateral) {
+      this.revert('CollateralLimitReached', [required, params.maxCollateral]);
+    }
+    this.collateral.transferFrom(ctx.from, this.address, required, {
+      ...ctx,
+      from: this.address,
+    });
+
+    const id = this.state.nextId++;
+    this.state.positions.set(id, {
+      id,
+      kind: 2,
+      marketId: params.marketId,
+      owner: ctx.from.toLowerCase(),
+      collateral: required,
+      liquidity: 0n,
+      lowerTick: 0,
+      upperTick: 0,
+      size: params.size,
+      isSettled: false,
+    });
+    this.emit(ctx, 'Transfer', [ethers.ZeroAddress, ctx.from, id]);
+    this.emit(ctx, 'TraderPositionCreated', [
+      ctx.from,
+      params.marketId,
+      id,
+      required,
+      priceD18(m),
+      priceD18(m),
+      0n,
+      required,
+      0n,
+      0n,
+      0n,
+      0n,
+      required,
+    ]);
+    return id;
+  }
+
+  quoteModifyTraderPosition(positionId: bigint, size: bigint) {
+    const p = this.trader(positionId);
+    const m = this.market(p.marketId);
+    const delta = this.requiredCollateral(m, size) - p.collateral;
+    return [delta, 0n, priceD18(m), priceD18(m)];
+  }
+
+  // Deposits or returns the difference in required collateral; size 0 closes
+  modifyTraderPosition(params: ethers.Result, ctx: CallContext) {
+    const p = this.trader(params.positionId);
+    if (p.owner !== ctx.from.toLowerCase()) {
+      this.revert('NotAccountOwner', [params.positionId, ctx.from]);
+    }
+    if (params.deadline < BigInt(ctx.timestamp)) {
+      this.revert('TransactionExpired', [params.deadline, ctx.timestamp]);
+    }
+    const m = this.market(p.marketId);
+    const required = this.requiredCollateral(m, params.size);
+    const delta = required - p.collateral;
+    if (delta > params.deltaCollateralLimit) {
+      this.revert('CollateralLimitReached', [
+        delta,
+        params.deltaCollateralLimit,
+      ]);
+    }
+    if (delta > 0n) {
+      this.collateral.transferFrom(ctx.from, this.address, delta, {
+        ...ctx,
+        from: this.address,
+      });
+    } else if (delta < 0n) {
+      this.collateral.transfer(ctx.from, -delta, {
+        ...ctx,
+        from: this.address,
+      });
+    }
+    if (params.size === 0n) {
+      this.state.positions.delete(p.id);
+      this.emit(ctx, 'Transfer', [ctx.from, ethers.ZeroAddress, p.id]);
+      return;
+    }
+    p.size = params.size;
+    p.collateral = required;
+  }
+
+  getPositionSize(positionId: bigint) {
+    return this.state.positions.get(positionId)?.size ?? 0n;
+  }
+
+  // LP positions get their collateral back; trader positions are paid out
+  // at the settlement price
+  settlePosition(positionId: bigint, ctx: CallContext) {
+    const p = this.state.positions.get(positionId);
+    if (!p) this.revert('InvalidPositionId', [positionId]);
+    if (p.isSettled) this.revert('PositionAlreadySettled', [positionId]);
+    const m = this.market(p.marketId);
+    if (!m.settled) this.revert('MarketNotSettled', [p.marketId]);
+    const withdrawn =
+      p.kind === 2 ? payout(p.size, m.settlementPriceD18) : p.collateral;
+    p.isSettled = true;
+    this.collateral.transfer(p.owner, withdrawn, {
+      ...ctx,
+      from: this.address,
+    });
+    this.emit(ctx, 'PositionSettled', [
+      positionId,
+      withdrawn,
+      p.collateral,
+      0n,
+      0n,
+      0n,
+      0n,
+      withdrawn - p.collateral,
+      p.marketId,
+      p.owner,
+    ]);
+    return withdrawn;
+  }
+
+  /** Current liquidity of a position, for MockPositionManager. */
+  liquidityOf(id: bigint): bigint {
+    return this.state.positions.get(id)?.liquidity ?? 0n;
+  }
+
+  getPosition(id: bigint) {
+    const p = this.state.positions.get(id);
+    return {
+      id: p?.id ?? 0n,
+      kind: p?.kind ?? 0,
+      marketId: p?.marketId ?? 0n,
+      depositedCollateralAmount: p?.collateral ?? 0n,
+      borrowedVQuote: 0n,
+      borrowedVBase: 0n,
+      vQuoteAmount: p?.liquidity ?? 0n,
+      vBaseAmount: 0n,
+      uniswapPositionId: p?.id ?? 0n,
+      isSettled: p?.isSettled ?? false,
+    };
+  }
+
+  balanceOf(holder: string) {
+    return BigInt(this.owned(holder).length);
+  }
+
+  tokenOfOwnerByIndex(owner: string, index: bigint) {
+    const owned = this.owned(owner);
+    if (index >= BigInt(owned.length)) {
+      this.revert('IndexOverrun', [index, owned.length]);
+    }
+    return owned[Number(index)].id;
+  }
+
+  private owned(owner: string): MockPosition[] {
+    return [...this.state.positions.values()].filter(
+      (p) => p.owner === owner.toLowerCase()
+    );
+  }
+
+  private trader(id: bigint): MockPosition {
+    const p = this.state.positions.get(id);
+    if (!p) this.revert('InvalidPositionId', [id]);
+    if (p.kind !== 2) this.revert('InvalidPositionKind');
+    return p;
+  }
+
+  private requiredCollateral(m: MockMarket, size: bigint): bigint {
+    if (size === 0n) return 0n;
+    const max = this.state.maxTradeSize;
+    if (max !== undefined && (size < 0n ? -size : size) > max) {
+      this.revert('TradePriceOutOfBounds', [0n, 0n, 0n]);
+    }
+    return payout(size, priceD18(m));
+  }
+
+  private market(id: bigint): MockMarket {
+    const m = this.state.markets.get(BigInt(id));
+    if (!m) this.revert('InvalidMarket');
+    return m;
+  }
+}
+
+/** The Uniswap position read LPManager makes for a position's liquidity. */
+export class MockPositionManager extends MockContract<Record<string, never>> {
+  constructor(private sapience: MockSapience) {
+    super(POSITION_MANAGER, UNISWAP_POSITION_MANAGER_ABI, {});
+  }
+
+  positions(tokenId: bigint) {
+    return [
+      0n,
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      0,
+      0,
+      0,
+      this.sapience.liquidityOf(tokenId),
+      0n,
+      0n,
+      0n,
+      0n,
+    ];
+  }
+}
+
+interface Attestation {
+  schema: string;
+  data: string; // schema-encoded
+}
+
+/** EAS attest, recording each attestation and emitting Attested. */
+export class MockEAS extends MockContract<{ attestations: Attestation[] }> {
+  constructor(address: string) {
+    super(address, EAS_ABI, { attestations: [] });
+  }
+
+  get attestations(): Attestation[] {
+    return this.state.attestations;
+  }
+
+  attest(request: ethers.Result, ctx: CallContext) {
+    this.state.attestations.push({
+      schema: request.schema,
+      data: request.data.data,
+    });
+    const uid = ethers.zeroPadValue(
+      ethers.toBeHex(this.state.attestations.length),
+      32
+    );
+    this.emit(ctx, 'Attested', [
+      request.data.recipient,
+      ctx.from,
+      uid,
+      request.schema,
+    ]);
+    return uid;
+  }
+}
+
+export class MockChain extends ethers.JsonRpcProvider {
+  static readonly CHAIN_ID = 31337;
+  readonly mined: MinedCall[] = [];
+  /** When false, sent transactions wait in the mempool until mineAll(). */
+  autoMine = true;
+  private blockNumber = 1;
+  private mempool = new Map<string, ethers.Transaction>();
+  private nonces = new Map<string, number>();
+  private contracts = new Map<string, MockContract<unknown>>();
+  private receipts = new Map<string, Record<string, unknown>>();
+
+  constructor() {
+    const network = ethers.Network.from(MockChain.CHAIN_ID);
+    super(undefined, network, { staticNetwork: network, cacheTimeout: -1 });
+  }
+
+  deploy<C extends MockContract<any>>(contract: C): C {
+    this.contracts.set(contract.address.toLowerCase(), contract);
+    return contract;
+  }
+
+  /** Mine every transaction waiting in the mempool, in nonce order. */
+  mineAll(): void {
+    const pending = [...this.mempool.values()].sort(
+      (a, b) => a.nonce - b.nonce
+    );
+    this.mempool.clear();
+    for (const tx of pending) this.mine(tx);
+  }
+
+  /** Mined calls to one function, oldest first. */
+  calls(name: string): MinedCall[] {
+    return this.mined.filter((c) => c.name === name);
+  }
+
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    // JsonRpcProvider narrows the return type, but errors are handled too
+    return requests.map((request): any => {
+      try {
+        return { id: request.id, result: this.handle(request) };
+      } catch (error) {
+        // Anything but a revert is a bug in the mock or the test
+        if (!(error instanceof MockRevert)) throw error;
+        return {
+          id: request.id,
+          error: { code: 3, message: 'execution reverted', data: error.data },
+        };
+      }
+    });
+  }
+
+  private handle({ method, params }: ethers.JsonRpcPayload): unknown {
+    const args = (params ?? []) as any[];
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(MockChain.CHAIN_ID);
+      case 'eth_blockNumber':
+        return ethers.toQuantity(this.blockNumber);
+      case 'eth_getBlockByNumber':
+        return this.block();
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return ethers.toQuantity(BASE_FEE);
+      case 'eth_getTransactionCount':
+        return ethers.toQuantity(this.nonce(args[0], args[1] === 'pending'));
+      case 'eth_call':
+        return this.simulate(args[0]);
+      case 'eth_estimateGas':
+        this.simulate(args[0]);
+        return ethers.toQuantity(500_000);
+      case 'eth_sendRawTransaction':
+        return this.submit(ethers.Transaction.from(args[0]));
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(args[0]) ?? null;
+      case 'eth_getLogs':
+        return [];
+      default:
+        throw new Error(`MockChain: ${method} is not supported`);
+    }
+  }
+
+  private simulate(tx: { from?: string; to: string; data: string }): string {
+    const snapshots = [...this.contracts.values()].map(
+      (c) => [c, c.snapshot()] as const
+    );
+    try {
+      return this.execute(tx.from ?? ethers.ZeroAddress, tx.to, tx.data, [])
+        .result;
+    } finally {
+      for (const [contract, state] of snapshots) contract.restore(state);
+    }
+  }
+
+  private nonce(address: string, pending: boolean): number {
+    const from = address.toLowerCase();
+    let nonce = this.nonces.get(from) ?? 0;
+    while (pending && this.mempool.has(`${from}:${nonce}`)) nonce += 1;
+    return nonce;
+  }
+
+  private submit(tx: ethers.Transaction): string {
+    if (this.autoMine) return this.mine(tx);
+    const key = `${tx.from!.toLowerCase()}:${tx.nonce}`;
+    const replaced = this.mempool.get(key);
+    if (replaced && tx.maxFeePerGas! <= replaced.maxFeePerGas!) {
+      throw new Error('replacement transaction underpriced');
+    }
+    this.mempool.set(key, tx);
+    return tx.hash!;
+  }
+
+  private mine(tx: ethers.Transaction): string {
+    const from = tx.from!.toLowerCase();
+    const nonce = this.nonces.get(from) ?? 0;
+    if (tx.nonce !== nonce) {
+      throw new Error(`nonce ${tx.nonce} does not match ${nonce}`);
+    }
+    const logs: CallContext['logs'] = [];
+    // Plain value transfers (e.g. cancellations) touch no contract
+    const { name, args } =
+      tx.data === '0x'
+        ? { name: '', args: ethers.Result.fromItems([]) }
+        : this.execute(from, tx.to!, tx.data, logs);
+
+    this.nonces.set(from, nonce + 1);
+    this.blockNumber += 1;
+    const fee = BASE_FEE + (tx.maxPriorityFeePerGas ?? 0n);
+    const gasPrice =
+      tx.maxFeePerGas !== null && tx.maxFeePerGas < fee ? tx.maxFeePerGas : fee;
+    const hash = tx.hash!;
+    const blockHash = ethers.zeroPadValue(ethers.toBeHex(this.blockNumber), 32);
+    const position = {
+      blockNumber: ethers.toQuantity(this.blockNumber),
+      blockHash,
+      transactionHash: hash,
+      transactionIndex: '0x0',
+    };
+    this.receipts.set(hash, {
+      ...position,
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: ethers.toQuantity(100_000),
+      gasUsed: ethers.toQuantity(100_000),
+      effectiveGasPrice: ethers.toQuantity(gasPrice),
+      logsBloom: ethers.zeroPadValue('0x', 256),
+      status: '0x1',
+      type: ethers.toQuantity(tx.type ?? 2),
+      logs: logs.map((log, i) => ({
+        ...log,
+        ...position,
+        logIndex: ethers.toQuantity(i),
+        removed: false,
+      })),
+    });
+    this.mined.push({ hash, from, to: tx.to!.toLowerCase(), name, args });
+    return hash;
+  }
+
+  private execute(
+    from: string,
+    to: string,
+    data: string,
+    logs: CallContext['logs']
+  ): { result: string; name: string; args: ethers.Result } {
+    const contract = this.contracts.get(to.toLowerCase());
+    if (!contract) throw new Error(`MockChain: no contract at ${to}`);
+    const fragment = contract.iface.getFunction(data.slice(0, 10));
+    if (!fragment) throw new Error(`MockChain: unknown selector ${data}`);
+    const handler = (contract as any)[fragment.name];
+    if (typeof handler !== 'function') {
+      throw new Error(`MockChain: ${fragment.name} is not mocked`);
+    }
+    const args = contract.iface.decodeFunctionData(fragment, data);
+    const ctx: CallContext = { from, timestamp: this.timestamp(), logs };
+    const output = handler.call(contract, ...args, ctx);
+    return {
+      result: contract.iface.encodeFunctionResult(
+        fragment,
+        fragment.outputs.length === 1 ? [output] : output
+      ),
+      name: fragment.name,
+      args,
+    };
+  }
+
+  private block() {
+    return {
+      hash: ethers.zeroPadValue(ethers.toBeHex(this.blockNumber), 32),
+      parentHash: ethers.ZeroHash,
+      number: ethers.toQuantity(this.blockNumber),
+      timestamp: ethers.toQuantity(this.timestamp()),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.toQuantity(30_000_000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: ethers.toQuantity(BASE_FEE),
+      transactions: [],
+    };
+  }
+
+  private timestamp(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+}
+
+// Pool price (token1 per token0) with 18 decimals
+function priceD18(m: MockMarket): bigint {
+  return (m.sqrtPriceX96 * m.sqrtPriceX96 * 10n ** 18n) >> 192n;
+}
+
+// Value of a signed trader size at `priceD18`: longs hold the price, shorts
+// one less the price
+function payout(size: bigint, priceD18: bigint): bigint {
+  const one = 10n ** 18n;
+  return size > 0n ? (size * priceD18) / one : (-size * (one - priceD18)) / one;
+}
+
+function marketParams() {
+  return {
+    feeRate: 10000,
+    assertionLiveness: 0n,
+    bondAmount: 0n,
+    bondCurrency: ethers.ZeroAddress,
+    uniswapPositionManager: POSITION_MANAGER,
+    uniswapSwapRouter: ethers.ZeroAddress,
+    uniswapQuoter: ethers.ZeroAddress,
+    optimisticOracleV3: ethers.ZeroAddress,
+  };
+}
+
+function revertString(message: string): string {
+  return ethers.concat([
+    '0x08c379a0',
+    ethers.AbiCoder.defaultAbiCoder().encode(['string'], [message]),
+  ]);
+}
@@ -0,0 +1,132 @@
+import { priceToTick, tickToPrice } from '@ts-bots/shared';
+import { PriceModel } from '../src/services/PriceModel';
+import { MarketPriceParams } from '../src/types';
+
+const binary: MarketPriceParams = {
+  numeric: false,
+  tickSpacing: 200,
+  minTick: -92200,
+  maxTick: 0,
+  minPrice: 0,
+  maxPrice: 1,
+};
+
+const numeric: MarketPriceParams = {
+  numeric: true,
+  tickSpacing: 200,
+  minTick: 0,
+  maxTick: 46000,
+  minPrice: 1,
+  maxPrice: 100,
+};
+
+describe('PriceModel', () => {
+  const model = new PriceModel();
+  const currentTick = priceToTick(0.5);
+
+  const expectUsable = (
+    { lowerTick, upperTick }: { lowerTick: number; upperTick: number },
+    params: MarketPriceParams
+  ) => {
+    expect(Math.abs(lowerTick % params.tickSpacing)).toBe(0);
+    expect(Math.abs(upperTick % params.tickSpacing)).toBe(0);
+    expect(lowerTick).toBeLessThan(upperTick);
+    expect(lowerTick).toBeGreaterThanOrEqual(params.minTick);
+    expect(upperTick).toBeLessThanOrEqual(params.maxTick);
+  };
+
+  describe('priceToTicks', () => {
+    it('centres an aligned range on the target price', () => {
+      const ticks = model.priceToTicks(0.5, currentTick, 0.1, binary);
+
+      expectUsable(ticks, binary);
+      const spacing = binary.tickSpacing;
+      expect(tickToPrice(ticks.lowerTick - spacing)).toBeLessThan(0.45);
+      expect(tickToPrice(ticks.lowerTick + spacing)).toBeGreaterThan(0.45);
+      expect(tickToPrice(ticks.upperTick - spacing)).toBeLessThan(0.55);
+      expect(tickToPrice(ticks.upperTick + spacing)).toBeGreaterThan(0.55);
+    });
+
+    it('clamps a range that reaches past price 1 to the max tick', () => {
+      const ticks = model.priceToTicks(0.99, priceToTick(0.99), 0.1, binary);
+
+      expectUsable(ticks, binary);
+      expect(ticks.upperTick).toBe(binary.maxTick);
+    });
+
+    it('uses the min tick when the range reaches price 0', () => {
+      const ticks = model.priceToTicks(0.01, priceToTick(0.01), 0.1, binary);
+
+      expectUsable(ticks, binary);
+      expect(ticks.lowerTick).toBe(binary.minTick);
+    });
+
+    it('covers the whole market when the range is wider than it', () => {
+      expect(model.priceToTicks(0.5, currentTick, 2, binary)).toEqual({
+        lowerTick: binary.minTick,
+        upperTick: binary.maxTick,
+      });
+    });
+
+    it('falls back to five spacings around the current tick when the range collapses', () => {
+      const ticks = model.priceToTicks(0.5, -6932, 1e-9, binary);
+
+      expect(ticks).toEqual({ lowerTick: -8000, upperTick: -6000 });
+    });
+
+    it('keeps the fallback range inside the market bounds', () => {
+      const ticks = model.priceToTicks(1, 0, 1e-9, binary);
+
+      expect(ticks).toEqual({ lowerTick: -1000, upperTick: 0 });
+    });
+
+    it('narrows the range for confident forecasts and widens it for unsure ones', () => {
+      const width = (confidence?: number) => {
+        const { lowerTick, upperTick } = model.priceToTicks(
+          0.5,
+          currentTick,
+          0.1,
+          binary,
+          confidence
+        );
+        return upperTick - lowerTick;
+      };
+
+      expect(width(0.5)).toBe(width(undefined));
+      expect(width(1)).toBeLessThan(width(0.5));
+      expect(width(0)).toBeGreaterThan(width(0.5));
+      expect(width(NaN)).toBe(width(undefined));
+    });
+
+    it('sizes numeric ranges as a fraction of the price scale', () => {
+      const ticks = model.priceToTicks(50, priceToTick(50), 0.1, numeric);
+
+      expectUsable(ticks, numeric);
+      // 10% of 1..100 around 50 is 45.05..54.95
+      expect(tickToPrice(ticks.lowerTick)).toBeCloseTo(45.05, 0);
+      expect(tickToPrice(ticks.upperTick)).toBeCloseTo(54.95, 0);
+    });
+
+    it('treats groups without usable price bounds as 0..1', () => {
+      const unbounded = { ...binary, minPrice: 0, maxPrice: 0 };
+
+      expect(model.priceToTicks(0.5, currentTick, 0.1, unbounded)).toEqual(
+        model.priceToTicks(0.5, currentTick, 0.1, binary)
+      );
+    });
+  });
+
+  describe('likelihoodToPrice', () => {
+    it('clamps likelihoods to the tradable band', () => {
+      expect(model.likelihoodToPrice(0)).toBe(0.01);
+      expect(model.likelihoodToPrice(1)).toBe(0.99);
+      expect(model.likelihoodToPrice(0.37)).toBe(0.37);
+    });
+
+    it('rejects values outside 0..1', () => {
+      expect(() => model.likelihoodToPrice(-0.1)).toThrow('Invalid likelihood');
+      expect(() => model.likelihoodToPrice(1.1)).toThrow('Invalid likelihood');
+      expect(() => model.likelihoodToPrice(NaN)).toThrow('Invalid likelihood');
+    });
+  });
+});
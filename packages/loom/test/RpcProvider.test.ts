@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ERC20_ABI } from '../src/abis/placeholders';
+import { loadConfig } from '../src/config';
+import {
+  checkChainId,
+  getContract,
+  getProvider,
+  RpcProvider,
+} from '../src/services/RpcProvider';
+import { LoomConfig } from '../src/types';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+const CHAIN_ID = 42161;
+const TOKEN = '0x0000000000000000000000000000000000000dc0';
+
+// A JSON-RPC `result`, an `{ error }` object, or an HTTP status to fail with
+type Reply = { result: unknown } | { error: object } | number;
+
+interface Endpoint {
+  url: string;
+  methods: string[];
+  server: http.Server;
+}
+
+async function serve(handler: (method: string) => Reply): Promise<Endpoint> {
+  const methods: string[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method } = JSON.parse(body);
+      methods.push(method);
+      const reply = handler(method);
+      if (typeof reply === 'number') {
+        res.statusCode = reply;
+        res.end();
+        return;
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...reply }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, methods, server };
+}
+
+describe('RpcProvider', () => {
+  const endpoints: Endpoint[] = [];
+  const providers: ethers.AbstractProvider[] = [];
+  let rpc: LoomConfig['rpc'];
+
+  const endpoint = async (handler: (method: string) => Reply) => {
+    const e = await serve(handler);
+    endpoints.push(e);
+    return e;
+  };
+  const provider = (...urls: string[]) => {
+    const p = new RpcProvider(urls, rpc, CHAIN_ID);
+    providers.push(p);
+    return p;
+  };
+  const configFor = (...urls: string[]): LoomConfig => {
+    const config = loadConfig({ offline: true });
+    return {
+      ...config,
+      blockchain: { ...config.blockchain, rpcUrls: urls, chainId: CHAIN_ID },
+      rpc,
+    };
+  };
+  const blockNumber = (): Reply => ({ result: '0x10' });
+
+  beforeEach(() => {
+    rpc = {
+      mode: 'fallback',
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      timeoutMs: 5000,
+      rateLimit: 0,
+    };
+  });
+
+  afterEach(async () => {
+    providers.splice(0).forEach((p) => p.destroy());
+    await Promise.all(
+      endpoints
+        .splice(0)
+        .map(({ server }) => new Promise((r) => server.close(r)))
+    );
+  });
+
+  it('retries busy answers and transport errors until one succeeds', async () => {
+    let calls = 0;
+    const node = await endpoint(() => {
+      calls++;
+      if (calls === 1) return 503;
+      if (calls === 2) return { error: { code: -32005, message: 'limit' } };
+      return blockNumber();
+    });
+
+    expect(await provider(node.url).getBlockNumber()).toBe(16);
+    expect(node.methods).toEqual(Array(3).fill('eth_blockNumber'));
+  });
+
+  it("reports the node's error once retries run out", async () => {
+    const node = await endpoint(() => ({
+      error: { code: -32005, message: 'rate limit exceeded' },
+    }));
+
+    await expect(provider(node.url).getBlockNumber()).rejects.toThrow(
+      'rate limit exceeded'
+    );
+    expect(node.methods).toHaveLength(rpc.maxRetries + 1);
+  });
+
+  it('does not retry client errors or node errors that are answers', async () => {
+    const unauthorized = await endpoint(() => 401);
+    const reverting = await endpoint(() => ({
+      error: { code: 3, message: 'execution reverted', data: '0x' },
+    }));
+
+    await expect(provider(unauthorized.url).getBlockNumber()).rejects.toThrow();
+    await expect(
+      provider(reverting.url).call({ to: TOKEN, data: '0x' })
+    ).rejects.toThrow();
+    expect(unauthorized.methods).toHaveLength(1);
+    expect(reverting.methods).toHaveLength(1);
+  });
+
+  it('moves to the next endpoint and stays there', async () => {
+    const primary = await endpoint(() => 503);
+    const backup = await endpoint(blockNumber);
+    const p = provider(primary.url, backup.url);
+
+    expect(await p.send('eth_blockNumber', [])).toBe('0x10');
+    expect(await p.send('eth_blockNumber', [])).toBe('0x10');
+    expect(primary.methods).toHaveLength(1);
+    expect(backup.methods).toHaveLength(2);
+  });
+
+  it('broadcasts a transaction only once', async () => {
+    const node = await endpoint(() => 503);
+    const signed = await ethers.Wallet.createRandom().signTransaction({
+      to: TOKEN,
+      chainId: CHAIN_ID,
+      gasLimit: 21_000n,
+      gasPrice: 1n,
+    });
+
+    await expect(
+      provider(node.url).send('eth_sendRawTransaction', [signed])
+    ).rejects.toThrow();
+    expect(node.methods).toEqual(['eth_sendRawTransaction']);
+  });
+
+  it('spaces requests to the rate limit', async () => {
+    rpc.rateLimit = 20;
+    const node = await endpoint(blockNumber);
+    const p = provider(node.url);
+
+    const start = Date.now();
+    for (let i = 0; i < 5; i++) await p.send('eth_blockNumber', []);
+
+    // 5 requests at 20/s: 4 waits of 50ms
+    expect(Date.now() - start).toBeGreaterThanOrEqual(195);
+  });
+
+  it('checks every endpoint is on CHAIN_ID', async () => {
+    const arbitrum = await endpoint(() => ({
+      result: ethers.toQuantity(CHAIN_ID),
+    }));
+    const mainnet = await endpoint(() => ({ result: '0x1' }));
+    const down = await endpoint(() => 503);
+
+    await expect(
+      checkChainId(configFor(arbitrum.url, down.url))
+    ).resolves.toBeUndefined();
+    await expect(
+      checkChainId(configFor(arbitrum.url, mainnet.url))
+    ).rejects.toThrow('is on chain 1, but CHAIN_ID is 42161');
+    await expect(checkChainId(configFor(down.url))).rejects.toThrow(
+      'No RPC endpoint answered'
+    );
+  });
+
+  it('shares providers and contracts', async () => {
+    const config = configFor('http://127.0.0.1:1', 'http://127.0.0.1:2');
+    const shared = getProvider(config);
+    providers.push(shared as ethers.AbstractProvider);
+    const quorum = getProvider({ ...config, rpc: { ...rpc, mode: 'quorum' } });
+    providers.push(quorum as ethers.AbstractProvider);
+
+    expect(getProvider(config)).toBe(shared);
+    expect(shared).toBeInstanceOf(RpcProvider);
+    expect(quorum).toBeInstanceOf(ethers.FallbackProvider);
+    expect(getContract(TOKEN, ERC20_ABI, shared)).toBe(
+      getContract(TOKEN.toUpperCase().replace('0X', '0x'), ERC20_ABI, shared)
+    );
+    expect(getContract(TOKEN, ERC20_ABI, quorum)).not.toBe(
+      getContract(TOKEN, ERC20_ABI, shared)
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { LPManager } from '../src/services/LPManager';
+import { PositionStore } from '../src/services/PositionStore';
+import { SettlementSweeper } from '../src/services/SettlementSweeper';
+import { SignerPool } from '../src/services/SignerPool';
+import { TraderManager } from '../src/services/TraderManager';
+import { LoomConfig } from '../src/types';
+import { MockChain, MockERC20, MockSapience } from './MockChain';
+
+const SAPIENCE = '0x00000000000000000000000000000000000005a9';
+const USDC = '0x0000000000000000000000000000000000000dc0';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+describe('SettlementSweeper', () => {
+  let chain: MockChain;
+  let usdc: MockERC20;
+  let sapience: MockSapience;
+  let store: PositionStore;
+  let dataDir: string;
+  let config: LoomConfig;
+  let signer: ethers.HDNodeWallet;
+  let lpManager: LPManager;
+
+  beforeEach(() => {
+    chain = new MockChain();
+    usdc = chain.deploy(new MockERC20(USDC));
+    sapience = chain.deploy(new MockSapience(SAPIENCE, usdc));
+    // Price 0.25 exactly
+    sapience.addMarket({ marketId: 1n, sqrtPriceX96: 2n ** 95n });
+    sapience.addMarket({ marketId: 2n });
+    // Collateral from the other side of the bot's trades
+    usdc.mint(SAPIENCE, 1_000_000_000n);
+
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    store = new PositionStore(path.join(dataDir, 'positions.jsonl'));
+    config = loadConfig({ offline: true });
+    // The sweeper uses the shared TransactionManager per address, so each
+    // test gets an account of its own
+    signer = ethers.Wallet.createRandom(chain);
+    usdc.mint(signer.address, 1_000_000_000n);
+    lpManager = new LPManager(config, SAPIENCE, signer, { store });
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('settles positions in resolved markets, counting earlier decreases in PnL', async () => {
+    const trader = new TraderManager(config, lpManager, { store });
+    // 400M long at 0.25 deposits 100M; scaling to 100M returns 75M
+    const position = await trader.openTraderPosition(1n, 400_000_000n, 0.7);
+    await trader.modifyTraderPosition(position, 100_000_000n);
+    await lpManager.createLPPosition(2n, -8000, -6000, 0.5, '50000000');
+    expect(store.get(SAPIENCE, 1)).toMatchObject({
+      collateralAmount: '25000000',
+      depositedCollateral: '100000000',
+      withdrawnCollateral: '75000000',
+    });
+
+    // Resolves yes: the remaining 100M long pays 100M
+    sapience.settleMarket(1n, ethers.parseEther('1'));
+    await new SettlementSweeper(config, store, SignerPool.of([signer])).sweep();
+
+    const settles = chain.calls('settlePosition');
+    expect(settles.map((c) => c.args[0])).toEqual([1n]);
+    expect(store.get(SAPIENCE, 1)).toMatchObject({
+      isActive: false,
+      settleTxHash: settles[0].hash,
+      withdrawnCollateral: '175000000',
+      realizedPnl: '75000000',
+    });
+    // The LP position's market has not resolved
+    expect(store.get(SAPIENCE, 2)).toMatchObject({ isActive: true });
+    expect(usdc.balanceOf(signer.address)).toBe(1_025_000_000n);
+  });
+});
@@ -0,0 +1,266 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { ERC20_ABI } from '../src/abis/placeholders';
+import { loadConfig } from '../src/config';
+import { PositionStore } from '../src/services/PositionStore';
+import { SignerPool } from '../src/services/SignerPool';
+import { TransactionManager } from '../src/services/TransactionManager';
+import { AccountSignerConfig, LoomConfig, StoredPosition } from '../src/types';
+import { MockChain, MockERC20 } from './MockChain';
+
+// Well-known development keys (Anvil/Hardhat accounts 0 and 1)
+const KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+];
+const USDC = '0x0000000000000000000000000000000000000dc0';
+const SPENDER = '0x00000000000000000000000000000000000005a9';
+const GROUP = '0x0000000000000000000000000000000000000001';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+type Handler = (method: string, params: any[]) => unknown;
+
+// Minimal JSON-RPC server standing in for Clef
+async function serve(handler: Handler): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      let reply: object;
+      try {
+        reply = { jsonrpc: '2.0', id, result: handler(method, params) };
+      } catch (error) {
+        reply = {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32000, message: (error as Error).message },
+        };
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+describe('SignerPool', () => {
+  let chain: MockChain;
+  let dataDir: string;
+  let base: LoomConfig;
+
+  const configFor = (...members: AccountSignerConfig[]): LoomConfig => ({
+    ...base,
+    blockchain: {
+      ...base.blockchain,
+      signer: members.length === 1 ? members[0] : { type: 'pool', members },
+    },
+  });
+
+  beforeEach(() => {
+    chain = new MockChain();
+    chain.deploy(new MockERC20(USDC));
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    base = loadConfig({ offline: true });
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('decrypts a keystore with a passphrase from a file', async () => {
+    const wallet = new ethers.Wallet(KEYS[0]);
+    const keystore = path.join(dataDir, 'keystore.json');
+    const passwordFile = path.join(dataDir, 'password');
+    fs.writeFileSync(
+      keystore,
+      ethers.encryptKeystoreJsonSync(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        'correct horse',
+        { scrypt: { N: 1 << 10 } }
+      )
+    );
+    fs.writeFileSync(passwordFile, 'correct horse\n');
+
+    const signers = await SignerPool.load(
+      configFor({ type: 'keystore', path: keystore, passwordFile }),
+      chain
+    );
+
+    expect(signers.addresses).toEqual([wallet.address]);
+    expect(signers.primary.provider).toBe(chain);
+    await expect(
+      SignerPool.load(
+        configFor({ type: 'keystore', path: keystore, password: 'wrong' }),
+        chain
+      )
+    ).rejects.toThrow();
+  });
+
+  describe('remote signer', () => {
+    const key = new ethers.Wallet(KEYS[1]);
+    let server: http.Server;
+    let url: string;
+    let sign: (tx: ethers.TransactionLike) => ethers.TransactionLike;
+
+    beforeEach(async () => {
+      sign = (tx) => tx;
+      server = await serve((method, [args]) => {
+        if (method === 'account_list') return [key.address.toLowerCase()];
+        if (method !== 'account_signTransaction') {
+          throw new Error(`unsupported ${method}`);
+        }
+        const tx = ethers.Transaction.from(
+          sign({
+            type: 2,
+            to: args.to,
+            data: args.data,
+            value: BigInt(args.value),
+            nonce: Number(args.nonce),
+            gasLimit: BigInt(args.gas),
+            chainId: BigInt(args.chainId),
+            maxFeePerGas: BigInt(args.maxFeePerGas),
+            maxPriorityFeePerGas: BigInt(args.maxPriorityFeePerGas),
+          })
+        );
+        tx.signature = key.signingKey.sign(tx.unsignedHash);
+        return { raw: tx.serialized, tx: args };
+      });
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('signs transactions through the remote service', async () => {
+      const signers = await SignerPool.load(
+        configFor({ type: 'remote', url, api: 'clef' }),
+        chain
+      );
+      const signer = signers.primary;
+      const usdc = new ethers.Contract(USDC, ERC20_ABI, signer);
+
+      await new TransactionManager(signer, base).send(usdc, 'approve', [
+        SPENDER,
+        5n,
+      ]);
+
+      expect(signer.address).toBe(key.address);
+      const [approve] = chain.calls('approve');
+      expect(approve.from).toBe(key.address.toLowerCase());
+      expect(approve.args[1]).toBe(5n);
+    });
+
+    it('refuses a signed transaction that differs from the request', async () => {
+      sign = (tx) => ({ ...tx, value: 1n });
+      const signers = await SignerPool.load(
+        configFor({ type: 'remote', url, api: 'clef' }),
+        chain
+      );
+      const usdc = new ethers.Contract(USDC, ERC20_ABI, signers.primary);
+
+      await expect(
+        new TransactionManager(signers.primary, base).send(usdc, 'approve', [
+          SPENDER,
+          5n,
+        ])
+      ).rejects.toThrow('different transaction');
+      expect(chain.mined).toHaveLength(0);
+    });
+
+    it('requires the configured account to be managed by the signer', async () => {
+      await expect(
+        SignerPool.load(
+          configFor({
+            type: 'remote',
+            url,
+            api: 'clef',
+            address: new ethers.Wallet(KEYS[0]).address,
+          }),
+          chain
+        )
+      ).rejects.toThrow('does not manage');
+    });
+  });
+
+  describe('pool', () => {
+    let signers: SignerPool;
+    let store: PositionStore;
+    const [first, second] = KEYS.map((k) => new ethers.Wallet(k).address);
+
+    const record = (
+      tokenId: number,
+      marketId: string,
+      owner?: string
+    ): StoredPosition => ({
+      tokenId,
+      marketGroupAddress: GROUP,
+      marketId,
+      owner: owner?.toLowerCase(),
+      lowerTick: 0,
+      upperTick: 0,
+      liquidity: '0',
+      targetPrice: 0.5,
+      collateralAmount: '1',
+      createdAt: 0,
+      lastUpdated: 0,
+      isActive: true,
+    });
+
+    beforeEach(async () => {
+      signers = await SignerPool.load(
+        configFor(
+          ...KEYS.map((privateKey) => ({
+            type: 'private-key' as const,
+            privateKey,
+          }))
+        ),
+        chain
+      );
+      store = new PositionStore(path.join(dataDir, 'positions.jsonl'));
+    });
+
+    it('spreads new markets across the least used accounts', () => {
+      expect(signers.forMarket(store, GROUP, '1').address).toBe(first);
+
+      store.upsert(record(1, '1', first));
+      expect(signers.forMarket(store, GROUP, '2').address).toBe(second);
+
+      store.upsert(record(2, '2', second));
+      // Records from before pools count for the primary account
+      store.upsert(record(3, '3'));
+      expect(signers.forMarket(store, GROUP, '4').address).toBe(second);
+    });
+
+    it('keeps a market with the account holding its position', () => {
+      store.upsert(record(1, '1', second));
+      store.upsert(record(2, '2', second));
+
+      expect(signers.forMarket(store, GROUP, '1').address).toBe(second);
+      expect(signers.forMarket(store, GROUP, '3').address).toBe(first);
+    });
+
+    it('rejects accounts outside the pool and duplicates', async () => {
+      expect(() => signers.forAddress(SPENDER)).toThrow(
+        'not in the signer pool'
+      );
+      await expect(
+        SignerPool.load(
+          configFor(
+            { type: 'private-key', privateKey: KEYS[0] },
+            { type: 'private-key', privateKey: KEYS[0] }
+          ),
+          chain
+        )
+      ).rejects.toThrow('configured twice');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { LPManager } from '../src/services/LPManager';
+import { PositionStore } from '../src/services/PositionStore';
+import { TraderManager } from '../src/services/TraderManager';
+import { TransactionManager } from '../src/services/TransactionManager';
+import { LoomConfig } from '../src/types';
+import { SapienceError } from '../src/utils/errors';
+import { MockChain, MockERC20, MockSapience } from './MockChain';
+
+// Well-known development key (Anvil/Hardhat account 0)
+const PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const WALLET = new ethers.Wallet(PRIVATE_KEY).address;
+const SAPIENCE = '0x00000000000000000000000000000000000005a9';
+const USDC = '0x0000000000000000000000000000000000000dc0';
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+describe('TraderManager', () => {
+  let chain: MockChain;
+  let usdc: MockERC20;
+  let sapience: MockSapience;
+  let store: PositionStore;
+  let dataDir: string;
+  let config: LoomConfig;
+  let trader: TraderManager;
+
+  beforeEach(() => {
+    chain = new MockChain();
+    usdc = chain.deploy(new MockERC20(USDC));
+    sapience = chain.deploy(new MockSapience(SAPIENCE, usdc));
+    // Price 0.25 exactly
+    sapience.addMarket({ marketId: 1n, sqrtPriceX96: 2n ** 95n });
+    usdc.mint(WALLET, 1_000_000_000n);
+
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loom-test-'));
+    store = new PositionStore(path.join(dataDir, 'positions.jsonl'));
+    config = loadConfig({ offline: true });
+    const signer = new ethers.Wallet(PRIVATE_KEY, chain);
+    // A manager per chain; the shared one per address would keep old nonces
+    const transactions = new TransactionManager(signer, config);
+    const lpManager = new LPManager(config, SAPIENCE, signer, {
+      store,
+      transactions,
+    });
+    trader = new TraderManager(config, lpManager, { store });
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('sizeForCollateral', () => {
+    // At price 0.25 a long of size s needs s / 4 and a short 3s / 4
+    it('finds the largest size the collateral covers', async () => {
+      const long = await trader.sizeForCollateral(1n, 1, 100_000_000n);
+      const short = await trader.sizeForCollateral(1n, -1, 100_000_000n);
+
+      expect(long).toBeLessThanOrEqual(400_000_000n);
+      expect(long).toBeGreaterThanOrEqual(399_600_000n);
+      expect(short).toBeGreaterThanOrEqual(-133_333_333n);
+      expect(short).toBeLessThanOrEqual(-133_200_000n);
+    });
+
+    it('treats trades too large for the pool as not fitting', async () => {
+      sapience.setMaxTradeSize(150_000_000n);
+
+      const size = await trader.sizeForCollateral(1n, 1, 100_000_000n);
+
+      expect(size).toBeLessThanOrEqual(150_000_000n);
+      expect(size).toBeGreaterThanOrEqual(149_850_000n);
+    });
+
+    it('rethrows quote failures other than a trade that does not fit', async () => {
+      const error = await trader
+        .sizeForCollateral(9n, 1, 100_000_000n)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SapienceError);
+      expect(error.errorName).toBe('InvalidMarket');
+    });
+  });
+
+  describe('openTraderPosition', () => {
+    it('deposits the quoted collateral and records the position', async () => {
+      const created = jest.fn();
+      trader.on('positionCreated', created);
+
+      const position = await trader.openTraderPosition(
+        1n,
+        400_000_000n,
+        0.7,
+        'test reasoning'
+      );
+
+      expect(position).toEqual({
+        tokenId: 1,
+        marketId: '1',
+        size: 400_000_000n,
+        collateralAmount: 100_000_000n,
+      });
+      expect(created).toHaveBeenCalledWith(position);
+      expect(usdc.balanceOf(WALLET)).toBe(900_000_000n);
+      const [create] = chain.calls('createTraderPosition');
+      const slippage = BigInt(config.execution.tradeSlippageBps);
+      expect(create.args[0].maxCollateral).toBe(
+        100_000_000n + (100_000_000n * slippage) / 10_000n
+      );
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        kind: 'trader',
+        size: '400000000',
+        collateralAmount: '100000000',
+        targetPrice: 0.7,
+        reasoning: 'test reasoning',
+        isActive: true,
+      });
+    });
+  });
+
+  describe('modifyTraderPosition', () => {
+    it('scales a position down and takes back the released collateral', async () => {
+      const position = await trader.openTraderPosition(1n, 400_000_000n, 0.7);
+      const modified = jest.fn();
+      trader.on('positionModified', modified);
+
+      await trader.modifyTraderPosition(position, 100_000_000n);
+
+      expect(position.size).toBe(100_000_000n);
+      expect(sapience.getPositionSize(1n)).toBe(100_000_000n);
+      expect(usdc.balanceOf(WALLET)).toBe(975_000_000n);
+      expect(modified).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenId: 1, size: 100_000_000n })
+      );
+      expect(position.collateralAmount).toBe(25_000_000n);
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        size: '100000000',
+        collateralAmount: '25000000',
+        isActive: true,
+      });
+    });
+
+    it('closes a position at size 0', async () => {
+      const position = await trader.openTraderPosition(1n, -200_000_000n, 0.3);
+      const closed = jest.fn();
+      trader.on('positionClosed', closed);
+
+      await trader.closeTraderPosition(position);
+
+      expect(closed).toHaveBeenCalled();
+      expect(usdc.balanceOf(WALLET)).toBe(1_000_000_000n);
+      const [modify] = chain.calls('modifyTraderPosition');
+      expect(modify.args[0].size).toBe(0n);
+      expect(store.get(SAPIENCE, 1)).toMatchObject({
+        size: '0',
+        isActive: false,
+        closeTxHash: modify.hash,
+      });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../src/abis/placeholders';
+import { loadConfig } from '../src/config';
+import {
+  TransactionError,
+  TransactionManager,
+} from '../src/services/TransactionManager';
+import { LoomConfig, TransactionEvent } from '../src/types';
+import { MockChain, MockERC20 } from './MockChain';
+
+// Well-known development key (Anvil/Hardhat account 0)
+const PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SPENDER = '0x00000000000000000000000000000000000005a9';
+const USDC = '0x0000000000000000000000000000000000000dc0';
+const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+describe('TransactionManager', () => {
+  let chain: MockChain;
+  let wallet: ethers.Wallet;
+  let usdc: ethers.Contract;
+  let events: TransactionEvent[];
+
+  const manager = (transactions: Partial<LoomConfig['transactions']> = {}) => {
+    const base = loadConfig({ offline: true });
+    const config: LoomConfig = {
+      ...base,
+      transactions: {
+        ...base.transactions,
+        confirmationTimeoutMs: 50,
+        ...transactions,
+      },
+    };
+    const created = new TransactionManager(wallet, config);
+    created.on('transaction', (e: TransactionEvent) => events.push(e));
+    return created;
+  };
+  const approve = (m: TransactionManager, value = 1n) =>
+    m.send(usdc, 'approve', [SPENDER, value], `approve ${value}`);
+
+  beforeEach(() => {
+    chain = new MockChain();
+    chain.deploy(new MockERC20(USDC));
+    wallet = new ethers.Wallet(PRIVATE_KEY, chain);
+    usdc = new ethers.Contract(USDC, ERC20_ABI, wallet);
+    events = [];
+  });
+
+  afterEach(() => {
+    chain.destroy();
+  });
+
+  it('sends queued transactions with consecutive nonces', async () => {
+    const transactions = manager();
+
+    const receipts = await Promise.all([
+      approve(transactions, 1n),
+      approve(transactions, 2n),
+      approve(transactions, 3n),
+    ]);
+
+    expect(chain.calls('approve').map((c) => c.args[1])).toEqual([1n, 2n, 3n]);
+    expect(receipts.map((r) => r.hash)).toEqual(
+      chain.calls('approve').map((c) => c.hash)
+    );
+    expect(events.map((e) => [e.type, e.nonce])).toEqual([
+      ['submitted', 0],
+      ['confirmed', 0],
+      ['submitted', 1],
+      ['confirmed', 1],
+      ['submitted', 2],
+      ['confirmed', 2],
+    ]);
+    expect(events[1]).toMatchObject({
+      label: 'approve 1',
+      from: wallet.address,
+      to: ethers.getAddress(USDC),
+      hash: receipts[0].hash,
+      gasUsed: '100000',
+      cost: (100_000n * gwei('2')).toString(),
+    });
+    expect(transactions.gasSpent).toBe(3n * 100_000n * gwei('2'));
+  });
+
+  it('caps fees at the configured maximums', async () => {
+    await approve(
+      manager({ maxFeePerGasGwei: 1.5, maxPriorityFeePerGasGwei: 0.25 })
+    );
+
+    expect(events[0]).toMatchObject({
+      type: 'submitted',
+      maxFeePerGas: gwei('1.5').toString(),
+      maxPriorityFeePerGas: gwei('0.25').toString(),
+    });
+  });
+
+  it('speeds up a stuck transaction with bumped fees', async () => {
+    chain.autoMine = false;
+    const transactions = manager({ feeBumpPercent: 20 });
+    transactions.on('transaction', (e: TransactionEvent) => {
+      if (e.type === 'replaced') chain.mineAll();
+    });
+
+    const receipt = await approve(transactions, 7n);
+
+    const [submitted, replaced, confirmed] = events;
+    expect(replaced).toMatchObject({
+      type: 'replaced',
+      nonce: 0,
+      hash: submitted.hash,
+      replacement: 'speed-up',
+      maxFeePerGas: ((gwei('3') * 120n) / 100n).toString(),
+    });
+    expect(confirmed).toMatchObject({
+      type: 'confirmed',
+      hash: replaced.replacedBy,
+      replacement: 'speed-up',
+    });
+    expect(receipt.hash).toBe(replaced.replacedBy);
+    expect(chain.calls('approve')).toHaveLength(1);
+    expect(chain.calls('approve')[0].args[1]).toBe(7n);
+  });
+
+  it('cancels a stuck transaction with a self-transfer', async () => {
+    chain.autoMine = false;
+    const transactions = manager({ stuckAction: 'cancel' });
+    transactions.on('transaction', (e: TransactionEvent) => {
+      if (e.type === 'replaced') chain.mineAll();
+    });
+
+    const error = await approve(transactions).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.reason).toBe('cancelled');
+    expect(chain.calls('approve')).toHaveLength(0);
+    expect(chain.mined).toHaveLength(1);
+    expect(chain.mined[0].to).toBe(wallet.address.toLowerCase());
+
+    // The cancelled nonce is used up; the next send takes the one after it
+    chain.autoMine = true;
+    await approve(transactions);
+    expect(events[events.length - 2]).toMatchObject({
+      type: 'submitted',
+      nonce: 1,
+    });
+  });
+
+  it('gives up after the configured number of replacements', async () => {
+    chain.autoMine = false;
+
+    const error = await approve(manager({ maxReplacements: 1 })).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.reason).toBe('timeout');
+    expect(events.map((e) => e.type)).toEqual([
+      'submitted',
+      'replaced',
+      'failed',
+    ]);
+    expect(error.hash).toBe(events[1].replacedBy);
+    expect(chain.mined).toHaveLength(0);
+  });
+
+  it('refuses transactions that would exceed the gas budget of the run', async () => {
+    // Each approval reserves 600k gas at 3 gwei and costs 100k gas at 2 gwei
+    const transactions = manager({ maxGasSpendPerRun: '0.0019' });
+
+    await approve(transactions);
+    const error = await approve(transactions).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.reason).toBe('gas-budget');
+    expect(events[events.length - 1].type).toBe('failed');
+    expect(chain.calls('approve')).toHaveLength(1);
+
+    transactions.startRun();
+    await approve(transactions);
+    expect(chain.calls('approve')).toHaveLength(2);
+  });
+
+  it('reports estimation failures without sending', async () => {
+    const error = await manager()
+      .send(usdc, 'transferFrom', [SPENDER, wallet.address, 1n])
+      .catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(TransactionError);
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'failed', label: 'transferFrom' }),
+    ]);
+    expect(chain.mined).toHaveLength(0);
+  });
+});
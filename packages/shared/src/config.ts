@@ -6,8 +6,19 @@ config();
 export interface BotConfig {
   apiUrl: string;
   graphqlEndpoint: string;
+  // Items per request and the most requests when paging through a list
+  graphqlPageSize: number;
+  graphqlMaxPages: number;
   environment: 'development' | 'production' | 'test';
   openaiApiKey?: string;
+  openaiModel: string;
+  openaiTemperature: number;
+  forecaster: string;
+  localLlmBaseUrl?: string;
+  localLlmModel?: string;
+  forecastFile?: string;
+  ensembleForecasters?: string;
+  ensembleMethod: 'mean' | 'median';
 }
 
 export function createConfig(overrides: Partial<BotConfig> = {}): BotConfig {
@@ -17,9 +28,20 @@ export function createConfig(overrides: Partial<BotConfig> = {}): BotConfig {
       process.env.SAPIENCE_API ||
       process.env.GRAPHQL_ENDPOINT ||
       'http://localhost:3000/graphql',
+    graphqlPageSize: parseInt(process.env.GRAPHQL_PAGE_SIZE || '100', 10),
+    graphqlMaxPages: parseInt(process.env.GRAPHQL_MAX_PAGES || '100', 10),
     environment:
       (process.env.NODE_ENV as BotConfig['environment']) || 'development',
     openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    openaiTemperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.2'),
+    forecaster: process.env.FORECASTER || 'openai',
+    localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL,
+    localLlmModel: process.env.LOCAL_LLM_MODEL,
+    forecastFile: process.env.FORECAST_FILE,
+    ensembleForecasters: process.env.ENSEMBLE_FORECASTERS,
+    ensembleMethod:
+      (process.env.ENSEMBLE_METHOD as BotConfig['ensembleMethod']) || 'mean',
   };
 
   return { ...envConfig, ...overrides };
@@ -0,0 +1,380 @@
+import fs from 'fs';
+import { BotConfig } from './config';
+import { OpenAIService } from './openai';
+import { normalizeNumericPrediction, parseUnitInterval } from './utils';
+
+export interface MarketPredictionInput {
+  question: string;
+  claimYes?: string;
+  claimNo?: string;
+  marketId?: string;
+  marketGroupAddress?: string;
+}
+
+export interface MarketPrediction {
+  probabilityYes: number; // 0..1
+  reasoning?: string;
+  // 0 (pure guess) .. 1 (near certain); undefined when the backend gives none
+  confidence?: number;
+  // Set by EnsembleForecaster: weighted std dev of member probabilities
+  disagreement?: number;
+}
+
+// Numeric (scalar) markets settle on a value rather than YES/NO
+export interface NumericPredictionInput extends MarketPredictionInput {
+  // The market's price bounds, in the market's units
+  minValue: number;
+  maxValue: number;
+}
+
+export interface NumericPrediction {
+  estimate: number;
+  // Interval around the estimate, in the market's units
+  lower: number;
+  upper: number;
+  reasoning?: string;
+  confidence?: number;
+  // Set by EnsembleForecaster: weighted std dev of member estimates, as a
+  // fraction of the market's range
+  disagreement?: number;
+}
+
+export interface Forecaster {
+  readonly name: string;
+  predictMarket(input: MarketPredictionInput): Promise<MarketPrediction>;
+  predictNumericMarket(
+    input: NumericPredictionInput
+  ): Promise<NumericPrediction>;
+}
+
+type StaticForecastEntry =
+  | number
+  | { probabilityYes: number; reasoning?: string; confidence?: number }
+  | {
+      estimate: number;
+      lower?: number;
+      upper?: number;
+      reasoning?: string;
+      confidence?: number;
+    };
+
+/**
+ * Serves hand-entered forecasts from a JSON file. Keys are tried in order
+ * `<marketGroupAddress>:<marketId>`, `<marketId>`, the question text, then
+ * `default`. Values are a probability or
+ * `{ probabilityYes, reasoning, confidence }`; numeric markets take a bare
+ * estimate or `{ estimate, lower, upper, reasoning, confidence }`.
+ */
+export class StaticForecaster implements Forecaster {
+  readonly name: string;
+  private entries: Record<string, StaticForecastEntry>;
+
+  constructor(filePath: string) {
+    this.name = `static:${filePath}`;
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    this.entries = Object.fromEntries(
+      Object.entries(raw).map(([k, v]) => [k.toLowerCase(), v])
+    ) as Record<string, StaticForecastEntry>;
+  }
+
+  async predictMarket(input: MarketPredictionInput): Promise<MarketPrediction> {
+    const [key, entry] = this.lookup(input);
+    const p =
+      typeof entry === 'number'
+        ? entry
+        : 'probabilityYes' in entry
+          ? Number(entry.probabilityYes)
+          : NaN;
+    if (!isFinite(p) || p < 0 || p > 1) {
+      throw new Error(`Invalid static forecast for "${key}": ${p}`);
+    }
+    return {
+      probabilityYes: p,
+      reasoning:
+        typeof entry === 'number'
+          ? `Static forecast (${key})`
+          : entry.reasoning || `Static forecast (${key})`,
+      confidence:
+        typeof entry === 'number'
+          ? undefined
+          : parseUnitInterval(entry.confidence),
+    };
+  }
+
+  async predictNumericMarket(
+    input: NumericPredictionInput
+  ): Promise<NumericPrediction> {
+    const [key, entry] = this.lookup(input);
+    if (typeof entry === 'number') {
+      if (!isFinite(entry)) {
+        throw new Error(`Invalid static forecast for "${key}": ${entry}`);
+      }
+      return normalizeNumericPrediction(
+        {
+          estimate: entry,
+          lower: entry,
+          upper: entry,
+          reasoning: `Static forecast (${key})`,
+        },
+        input
+      );
+    }
+    if (!('estimate' in entry) || !isFinite(Number(entry.estimate))) {
+      throw new Error(`Static forecast for "${key}" has no numeric estimate`);
+    }
+    const estimate = Number(entry.estimate);
+    return normalizeNumericPrediction(
+      {
+        estimate,
+        lower: Number(entry.lower ?? estimate),
+        upper: Number(entry.upper ?? estimate),
+        reasoning: entry.reasoning || `Static forecast (${key})`,
+        confidence: parseUnitInterval(entry.confidence),
+      },
+      input
+    );
+  }
+
+  private lookup(input: MarketPredictionInput): [string, StaticForecastEntry] {
+    const keys = [
+      input.marketGroupAddress && input.marketId
+        ? `${input.marketGroupAddress}:${input.marketId}`
+        : undefined,
+      input.marketId,
+      input.question,
+      'default',
+    ];
+    for (const key of keys) {
+      const entry = key ? this.entries[key.toLowerCase()] : undefined;
+      if (entry !== undefined) return [key as string, entry];
+    }
+    throw new Error(
+      `No static forecast for market ${input.marketId ?? input.question}`
+    );
+  }
+}
+
+export interface EnsembleMember {
+  forecaster: Forecaster;
+  weight: number;
+}
+
+/**
+ * Combines several forecasters by weighted mean or weighted median. Members
+ * that fail are dropped; the ensemble only fails when all of them do.
+ * Confidence is the weighted mean of member confidences (0.5 for members
+ * that give none), reduced by twice the disagreement between members.
+ */
+export class EnsembleForecaster implements Forecaster {
+  readonly name: string;
+
+  constructor(
+    private members: EnsembleMember[],
+    private method: 'mean' | 'median' = 'mean'
+  ) {
+    if (members.length === 0) {
+      throw new Error('EnsembleForecaster needs at least one member');
+    }
+    this.name = `ensemble:${method}(${members
+      .map((m) => `${m.forecaster.name}*${m.weight}`)
+      .join(',')})`;
+  }
+
+  async predictMarket(input: MarketPredictionInput): Promise<MarketPrediction> {
+    const { votes, errors } = await this.collect((f) =>
+      f.predictMarket(input).then((r) => ({
+        value: r.probabilityYes,
+        confidence: r.confidence,
+      }))
+    );
+    const { value, disagreement, confidence } = this.combine(votes, 1);
+
+    const parts = votes.map((v) => `${v.name}=${v.value.toFixed(3)}`);
+    if (errors.length > 0) parts.push(`failed: ${errors.join('; ')}`);
+    return {
+      probabilityYes: value,
+      confidence,
+      disagreement,
+      reasoning: `Ensemble ${this.method} of ${parts.join(', ')}`,
+    };
+  }
+
+  /**
+   * Numeric markets combine member estimates the same way; interval bounds
+   * are combined separately and disagreement is measured against the
+   * market's range so confidence stays comparable with binary markets.
+   */
+  async predictNumericMarket(
+    input: NumericPredictionInput
+  ): Promise<NumericPrediction> {
+    const predictions: NumericPrediction[] = [];
+    const { votes, errors } = await this.collect((f, i) =>
+      f.predictNumericMarket(input).then((r) => {
+        predictions[i] = r;
+        return { value: r.estimate, confidence: r.confidence };
+      })
+    );
+    const scale = input.maxValue - input.minValue || 1;
+    const { value, disagreement, confidence } = this.combine(votes, scale);
+    const bound = (pick: (p: NumericPrediction) => number) =>
+      this.combine(
+        votes.map((v) => ({ ...v, value: pick(predictions[v.index]) })),
+        scale
+      ).value;
+
+    const parts = votes.map((v) => `${v.name}=${v.value}`);
+    if (errors.length > 0) parts.push(`failed: ${errors.join('; ')}`);
+    return normalizeNumericPrediction(
+      {
+        estimate: value,
+        lower: bound((p) => p.lower),
+        upper: bound((p) => p.upper),
+        confidence,
+        disagreement,
+        reasoning: `Ensemble ${this.method} of ${parts.join(', ')}`,
+      },
+      input
+    );
+  }
+
+  private async collect(
+    run: (
+      forecaster: Forecaster,
+      index: number
+    ) => Promise<{ value: number; confidence?: number }>
+  ): Promise<{ votes: EnsembleVote[]; errors: string[] }> {
+    const results = await Promise.allSettled(
+      this.members.map((m, i) => run(m.forecaster, i))
+    );
+
+    const votes: EnsembleVote[] = [];
+    const errors: string[] = [];
+    results.forEach((r, i) => {
+      const { forecaster, weight } = this.members[i];
+      if (r.status === 'fulfilled') {
+        votes.push({
+          index: i,
+          name: forecaster.name,
+          value: r.value.value,
+          confidence: r.value.confidence ?? 0.5,
+          weight,
+        });
+      } else {
+        errors.push(`${forecaster.name}: ${r.reason?.message ?? r.reason}`);
+      }
+    });
+
+    const totalWeight = votes.reduce((sum, v) => sum + v.weight, 0);
+    if (votes.length === 0 || totalWeight <= 0) {
+      throw new Error(`All ensemble members failed: ${errors.join('; ')}`);
+    }
+    return { votes, errors };
+  }
+
+  // Weighted mean or median of the votes; disagreement is their weighted
+  // std dev divided by `scale`
+  private combine(
+    votes: EnsembleVote[],
+    scale: number
+  ): { value: number; disagreement: number; confidence: number } {
+    const totalWeight = votes.reduce((sum, v) => sum + v.weight, 0);
+    const mean =
+      votes.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+    const value =
+      this.method === 'median' ? weightedMedian(votes, totalWeight) : mean;
+    const disagreement =
+      Math.sqrt(
+        votes.reduce((sum, v) => sum + v.weight * (v.value - mean) ** 2, 0) /
+          totalWeight
+      ) / scale;
+
+    const memberConfidence =
+      votes.reduce((sum, v) => sum + v.confidence * v.weight, 0) / totalWeight;
+    const confidence = Math.max(0, memberConfidence - 2 * disagreement);
+    return { value, disagreement, confidence };
+  }
+}
+
+interface EnsembleVote {
+  index: number;
+  name: string;
+  value: number;
+  confidence: number;
+  weight: number;
+}
+
+function weightedMedian(
+  votes: Array<{ value: number; weight: number }>,
+  totalWeight: number
+): number {
+  const sorted = [...votes].sort((a, b) => a.value - b.value);
+  let cumulative = 0;
+  for (const v of sorted) {
+    cumulative += v.weight;
+    if (cumulative >= totalWeight / 2) return v.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Build a single backend by kind: `openai[=model]`, `local[=model]` (any
+ * OpenAI-compatible endpoint at LOCAL_LLM_BASE_URL) or `static[=file]`.
+ */
+function createSingleForecaster(config: BotConfig, spec: string): Forecaster {
+  const [kind, arg] = spec.split('=').map((s) => s.trim());
+  switch (kind) {
+    case 'openai':
+      return new OpenAIService(config, { model: arg || config.openaiModel });
+    case 'local': {
+      if (!config.localLlmBaseUrl) {
+        throw new Error('LOCAL_LLM_BASE_URL is required for local forecaster');
+      }
+      const model = arg || config.localLlmModel;
+      if (!model) {
+        throw new Error('LOCAL_LLM_MODEL is required for local forecaster');
+      }
+      return new OpenAIService(config, {
+        baseURL: config.localLlmBaseUrl,
+        model,
+        name: `local:${model}`,
+      });
+    }
+    case 'static': {
+      const file = arg || config.forecastFile;
+      if (!file) {
+        throw new Error('FORECAST_FILE is required for static forecaster');
+      }
+      return new StaticForecaster(file);
+    }
+    default:
+      throw new Error(`Unknown forecaster: ${kind}`);
+  }
+}
+
+/**
+ * Create the forecaster selected by FORECASTER. For `ensemble`, members come
+ * from ENSEMBLE_FORECASTERS as a comma list of `kind[=arg][*weight]`, e.g.
+ * `openai=gpt-4o-mini*2,local=llama3,static=./forecasts.json`.
+ */
+export function createForecaster(config: BotConfig): Forecaster {
+  if (config.forecaster !== 'ensemble') {
+    return createSingleForecaster(config, config.forecaster);
+  }
+
+  if (!config.ensembleForecasters) {
+    throw new Error('ENSEMBLE_FORECASTERS is required for ensemble forecaster');
+  }
+  const members = config.ensembleForecasters
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [spec, weight] = entry.split('*');
+      const w = weight === undefined ? 1 : parseFloat(weight);
+      if (!isFinite(w) || w < 0) {
+        throw new Error(`Invalid ensemble weight in "${entry}"`);
+      }
+      return { forecaster: createSingleForecaster(config, spec), weight: w };
+    });
+  return new EnsembleForecaster(members, config.ensembleMethod);
+}
@@ -1,6 +1,27 @@
 import { GraphQLClient } from 'graphql-request';
 import { BotConfig } from './config';
 
+/**
+ * A GraphQL document carrying its result and variables types, so
+ * `GraphQLService.query(MARKETS_QUERY, vars)` checks `vars` and types the
+ * result without a cast.
+ */
+export type Operation<TResult, TVariables> = string & {
+  readonly __types?: [TResult, TVariables];
+};
+
+function operation<TResult, TVariables>(
+  document: string
+): Operation<TResult, TVariables> {
+  return document;
+}
+
+/** Variables of a query paged by `GraphQLService.paginate`. */
+export interface PageVariables {
+  take?: number;
+  skip?: number;
+}
+
 export class GraphQLService {
   private client: GraphQLClient;
   private config: BotConfig;
@@ -10,24 +31,59 @@ export class GraphQLService {
     this.client = new GraphQLClient(config.graphqlEndpoint);
   }
 
-  async query<T = any>(
-    query: string,
-    variables?: Record<string, any>
-  ): Promise<T> {
+  async query<TResult, TVariables extends object>(
+    query: Operation<TResult, TVariables>,
+    variables: TVariables
+  ): Promise<TResult> {
     try {
-      return await this.client.request<T>(query, variables);
+      return await this.client.request<TResult>(
+        query,
+        variables as Record<string, unknown>
+      );
     } catch (error) {
       console.error('GraphQL query error:', error);
       throw error;
     }
   }
 
-  async mutation<T = any>(
-    mutation: string,
-    variables?: Record<string, any>
-  ): Promise<T> {
+  /**
+   * Every item of a paged list query, fetched `GRAPHQL_PAGE_SIZE` at a time
+   * with `take`/`skip` until a page comes back empty. Stopping on an empty
+   * rather than a short page keeps lists whole when the API caps `take`
+   * below the page size. The query should order by a stable key (e.g.
+   * `id`), or items can move between pages while they are read.
+   */
+  async paginate<TResult, TVariables extends PageVariables, TItem>(
+    query: Operation<TResult, TVariables>,
+    variables: Omit<TVariables, 'take' | 'skip'>,
+    items: (result: TResult) => TItem[]
+  ): Promise<TItem[]> {
+    const { graphqlPageSize, graphqlMaxPages } = this.config;
+    const all: TItem[] = [];
+    for (let page = 0; page < graphqlMaxPages; page++) {
+      const result = await this.query(query, {
+        ...variables,
+        take: graphqlPageSize,
+        skip: all.length,
+      } as TVariables);
+      const batch = items(result);
+      if (batch.length === 0) return all;
+      all.push(...batch);
+    }
+    throw new Error(
+      `GraphQL list did not end within ${graphqlMaxPages} pages of ${graphqlPageSize}`
+    );
+  }
+
+  async mutation<TResult, TVariables extends object>(
+    mutation: Operation<TResult, TVariables>,
+    variables: TVariables
+  ): Promise<TResult> {
     try {
-      return await this.client.request<T>(mutation, variables);
+      return await this.client.request<TResult>(
+        mutation,
+        variables as Record<string, unknown>
+      );
     } catch (error) {
       console.error('GraphQL mutation error:', error);
       throw error;
@@ -45,36 +101,167 @@ export function createGraphQLService(config: BotConfig): GraphQLService {
   return new GraphQLService(config);
 }
 
-export const MARKETS_QUERY = /* GraphQL */ `
-  query Markets($where: MarketWhereInput) {
-    markets(where: $where) {
-      marketGroup {
-        collateralAsset
-        question
-        address
-      }
-      createdAt
-      endTimestamp
+// Filters of the Sapience API's generated `where` inputs (the parts used here)
+export interface StringFilter {
+  equals?: string;
+  in?: string[];
+  not?: string;
+  mode?: 'default' | 'insensitive';
+}
+
+export interface IntFilter {
+  equals?: number;
+  in?: number[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface BoolFilter {
+  equals?: boolean;
+}
+
+// ISO 8601 timestamps
+export interface DateTimeFilter {
+  gt?: string;
+  gte?: string;
+  lt?: string;
+  lte?: string;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface MarketGroupWhereInput {
+  address?: StringFilter;
+  chainId?: IntFilter;
+  collateralAsset?: StringFilter;
+  AND?: MarketGroupWhereInput[];
+  OR?: MarketGroupWhereInput[];
+}
+
+export interface MarketWhereInput {
+  id?: IntFilter;
+  marketId?: IntFilter;
+  settled?: BoolFilter;
+  public?: BoolFilter;
+  createdAt?: DateTimeFilter;
+  endTimestamp?: IntFilter;
+  marketGroup?: { is?: MarketGroupWhereInput };
+  AND?: MarketWhereInput[];
+  OR?: MarketWhereInput[];
+}
+
+export interface OrderByInput {
+  id?: SortOrder;
+  createdAt?: SortOrder;
+  endTimestamp?: SortOrder;
+}
+
+export interface ListVariables<TWhere> extends PageVariables {
+  where?: TWhere;
+  orderBy?: OrderByInput[];
+}
+
+export interface SapienceMarketGroup {
+  address: string;
+  chainId: number;
+  question?: string | null;
+  collateralAsset: string;
+  collateralSymbol?: string | null;
+  collateralDecimals?: number | null;
+}
+
+export interface SapienceMarket {
+  id: number;
+  marketId: string;
+  marketGroupId: string;
+  createdAt?: string | null;
+  startTimestamp?: number | null;
+  endTimestamp?: string | number | null;
+  settled?: boolean | null;
+  settlementPriceD18?: string | null;
+  claimStatementYesOrNumeric?: string | null;
+  claimStatementNo?: string | null;
+  baseAssetMinPriceTick?: number | null;
+  baseAssetMaxPriceTick?: number | null;
+  marketGroup: SapienceMarketGroup;
+}
+
+export type MarketsQueryResult = { markets: SapienceMarket[] };
+export type MarketsQueryVariables = ListVariables<MarketWhereInput>;
+
+export const MARKETS_QUERY = operation<
+  MarketsQueryResult,
+  MarketsQueryVariables
+>(/* GraphQL */ `
+  query Markets(
+    $where: MarketWhereInput
+    $orderBy: [MarketOrderByWithRelationInput!]
+    $take: Int
+    $skip: Int
+  ) {
+    markets(where: $where, orderBy: $orderBy, take: $take, skip: $skip) {
+      id
       marketId
       marketGroupId
+      createdAt
+      startTimestamp
+      endTimestamp
+      settled
+      settlementPriceD18
       claimStatementYesOrNumeric
       claimStatementNo
+      baseAssetMinPriceTick
+      baseAssetMaxPriceTick
+      marketGroup {
+        address
+        chainId
+        question
+        collateralAsset
+        collateralSymbol
+        collateralDecimals
+      }
     }
   }
-`;
-
-export type MarketsQueryResult = {
-  markets: Array<{
-    marketId: string;
-    marketGroupId: string;
-    createdAt?: string | null;
-    endTimestamp?: string | number | null;
-    claimStatementYesOrNumeric?: string | null;
-    claimStatementNo?: string | null;
-    marketGroup: {
-      collateralAsset: string;
-      question?: string | null;
-      address: string;
-    };
-  }>;
+`);
+
+export type MarketCandlesQueryResult = {
+  marketCandles: Array<{ timestamp: number; close: string }>;
+};
+export type MarketCandlesQueryVariables = {
+  chainId: number;
+  marketAddress: string;
+  marketId: string;
+  from: number;
+  to: number;
+  // Candle length in seconds
+  interval: number;
 };
+
+/** Pool price history as candles with D18 close prices. */
+export const MARKET_CANDLES_QUERY = operation<
+  MarketCandlesQueryResult,
+  MarketCandlesQueryVariables
+>(/* GraphQL */ `
+  query MarketCandles(
+    $chainId: Int!
+    $marketAddress: String!
+    $marketId: String!
+    $from: Int!
+    $to: Int!
+    $interval: Int!
+  ) {
+    marketCandles(
+      chainId: $chainId
+      marketAddress: $marketAddress
+      marketId: $marketId
+      from: $from
+      to: $to
+      interval: $interval
+    ) {
+      timestamp
+      close
+    }
+  }
+`);
@@ -1,5 +1,7 @@
 // Main exports for the shared package
 export * from './config';
+export * from './forecaster';
 export * from './graphql';
 export * from './openai';
+export * from './tickMath';
 export * from './utils';
@@ -1,42 +1,62 @@
 import OpenAI from 'openai';
 import { BotConfig } from './config';
+import type {
+  Forecaster,
+  MarketPrediction,
+  MarketPredictionInput,
+  NumericPrediction,
+  NumericPredictionInput,
+} from './forecaster';
+import { normalizeNumericPrediction, parseUnitInterval } from './utils';
 
-export interface MarketPredictionInput {
-  question: string;
-  claimYes?: string;
-  claimNo?: string;
+export interface OpenAIServiceOptions {
+  model?: string;
+  temperature?: number;
+  baseURL?: string;
+  apiKey?: string;
+  name?: string;
 }
 
-export interface MarketPrediction {
-  probabilityYes: number; // 0..1
-  reasoning?: string;
-}
-
-export class OpenAIService {
+export class OpenAIService implements Forecaster {
+  readonly name: string;
   private client: OpenAI;
+  private model: string;
+  private temperature: number;
 
-  constructor(private config: BotConfig) {
-    const apiKey = config.openaiApiKey || process.env.OPENAI_API_KEY;
+  constructor(
+    private config: BotConfig,
+    options: OpenAIServiceOptions = {}
+  ) {
+    // OpenAI-compatible local servers usually ignore the key but the SDK
+    // insists on one; never forward the real OpenAI key to them
+    const apiKey =
+      options.apiKey ||
+      (options.baseURL
+        ? 'local'
+        : config.openaiApiKey || process.env.OPENAI_API_KEY);
     if (!apiKey) {
       throw new Error('OPENAI_API_KEY is required');
     }
-    this.client = new OpenAI({ apiKey });
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model || config.openaiModel;
+    this.temperature = options.temperature ?? config.openaiTemperature;
+    this.name = options.name || `openai:${this.model}`;
   }
 
   async predictMarket(input: MarketPredictionInput): Promise<MarketPrediction> {
     const prompt = this.buildPrompt(input);
 
     const completion = await this.client.chat.completions.create({
-      model: 'gpt-4o-mini',
+      model: this.model,
       messages: [
         {
           role: 'system',
           content:
-            'You are a cautious, concise forecaster. Return a single probability between 0 and 1 for YES being true. Include a one-sentence rationale. Output JSON with keys probabilityYes and reasoning.',
+            'You are a cautious, concise forecaster. Return a single probability between 0 and 1 for YES being true. Also return your confidence in that estimate between 0 (pure guess) and 1 (near certain). Include a one-sentence rationale. Output JSON with keys probabilityYes, confidence and reasoning.',
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.2,
+      temperature: this.temperature,
       response_format: { type: 'json_object' } as any,
     });
 
@@ -46,9 +66,67 @@ export class OpenAIService {
       let p = Number(parsed.probabilityYes);
       if (!isFinite(p)) p = 0.5;
       p = Math.max(0, Math.min(1, p));
-      return { probabilityYes: p, reasoning: parsed.reasoning };
+      return {
+        probabilityYes: p,
+        confidence: parseUnitInterval(parsed.confidence),
+        reasoning: parsed.reasoning,
+      };
+    } catch {
+      return { probabilityYes: 0.5, confidence: 0 };
+    }
+  }
+
+  async predictNumericMarket(
+    input: NumericPredictionInput
+  ): Promise<NumericPrediction> {
+    const parts: string[] = [];
+    parts.push(`Question: ${input.question}`);
+    if (input.claimYes) parts.push(`Claim: ${input.claimYes}`);
+    parts.push(
+      `The answer is a number between ${input.minValue} and ${input.maxValue}.`
+    );
+    parts.push('Return JSON only.');
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are a cautious, concise forecaster. Return your best estimate of the value the question resolves to, plus the lower and upper bounds of an 80% interval around it, all in the units of the question. Also return your confidence in the estimate between 0 (pure guess) and 1 (near certain). Include a one-sentence rationale. Output JSON with keys estimate, lower, upper, confidence and reasoning.',
+        },
+        { role: 'user', content: parts.join('\n') },
+      ],
+      temperature: this.temperature,
+      response_format: { type: 'json_object' } as any,
+    });
+
+    const content = completion.choices[0]?.message?.content || '{}';
+    const midpoint = (input.minValue + input.maxValue) / 2;
+    const fallback = {
+      estimate: midpoint,
+      lower: input.minValue,
+      upper: input.maxValue,
+      confidence: 0,
+    };
+    try {
+      const parsed = JSON.parse(content);
+      const estimate = Number(parsed.estimate);
+      if (!isFinite(estimate)) {
+        return normalizeNumericPrediction(fallback, input);
+      }
+      return normalizeNumericPrediction(
+        {
+          estimate,
+          lower: Number(parsed.lower),
+          upper: Number(parsed.upper),
+          confidence: parseUnitInterval(parsed.confidence),
+          reasoning: parsed.reasoning,
+        },
+        input
+      );
     } catch {
-      return { probabilityYes: 0.5 };
+      return normalizeNumericPrediction(fallback, input);
     }
   }
 
@@ -62,6 +140,9 @@ export class OpenAIService {
   }
 }
 
-export function createOpenAIService(config: BotConfig): OpenAIService {
-  return new OpenAIService(config);
+export function createOpenAIService(
+  config: BotConfig,
+  options: OpenAIServiceOptions = {}
+): OpenAIService {
+  return new OpenAIService(config, options);
 }
@@ -0,0 +1,208 @@
+// Exact integer Uniswap V3 tick and liquidity math, ported from the Solidity
+// TickMath, SqrtPriceMath and LiquidityAmounts libraries. All sqrt prices are
+// Q64.96 fixed point (sqrtPriceX96) and all results match on-chain values.
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO =
+  1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+const TICK_RATIOS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/** sqrt(1.0001^tick) * 2^96, exactly as TickMath.getSqrtRatioAtTick. */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+  const absTick = Math.abs(tick);
+
+  let ratio =
+    (absTick & 0x1) !== 0
+      ? 0xfffcb933bd6fad37aa2d162d1a594001n
+      : 0x100000000000000000000000000000000n;
+  for (const [bit, multiplier] of TICK_RATIOS) {
+    if ((absTick & bit) !== 0) ratio = (ratio * multiplier) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Q128.128 -> Q64.96, rounding up
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96, exactly as
+ * TickMath.getTickAtSqrtRatio.
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 out of range: ${sqrtPriceX96}`);
+  }
+
+  const ratio = sqrtPriceX96 << 32n;
+  const msb = BigInt(ratio.toString(2).length - 1);
+  let r = msb >= 128n ? ratio >> (msb - 127n) : ratio << (127n - msb);
+  let log2 = (msb - 128n) << 64n;
+
+  for (let i = 0n; i < 14n; i++) {
+    r = (r * r) >> 127n;
+    const f = r >> 128n;
+    log2 |= f << (63n - i);
+    r >>= f;
+  }
+
+  const logSqrt10001 = log2 * 255738958999603826347141n;
+  const tickLow = Number(
+    (logSqrt10001 - 3402992956809132418596140100660247210n) >> 128n
+  );
+  const tickHigh = Number(
+    (logSqrt10001 + 291339464771989622907027621153398088495n) >> 128n
+  );
+
+  if (tickLow === tickHigh) return tickLow;
+  return getSqrtRatioAtTick(tickHigh) <= sqrtPriceX96 ? tickHigh : tickLow;
+}
+
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  return rounded;
+}
+
+/** Price (token1 per token0) for a sqrtPriceX96, to double precision. */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): number {
+  // Scale before dividing so tiny prices keep their significant digits
+  const scaled = (sqrtPriceX96 * sqrtPriceX96 * 10n ** 36n) >> 192n;
+  return Number(scaled) / 1e36;
+}
+
+/** sqrtPriceX96 for a price, rounded down. */
+export function priceToSqrtPriceX96(price: number): bigint {
+  if (!isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+  // Turn the double into an exact rational num / den
+  const [mantissa, exponent] = price.toExponential(16).split('e');
+  const digits = mantissa.replace('.', '');
+  const exp = parseInt(exponent, 10) - (digits.length - 1);
+  const num = BigInt(digits) * (exp > 0 ? 10n ** BigInt(exp) : 1n);
+  const den = exp < 0 ? 10n ** BigInt(-exp) : 1n;
+  return sqrt((num << 192n) / den);
+}
+
+export function priceToTick(price: number): number {
+  const sqrtPriceX96 = priceToSqrtPriceX96(price);
+  if (sqrtPriceX96 < MIN_SQRT_RATIO) return MIN_TICK;
+  if (sqrtPriceX96 >= MAX_SQRT_RATIO) return MAX_TICK;
+  return getTickAtSqrtRatio(sqrtPriceX96);
+}
+
+export function tickToPrice(tick: number): number {
+  return sqrtPriceX96ToPrice(getSqrtRatioAtTick(tick));
+}
+
+/** LiquidityAmounts.getAmount0ForLiquidity (rounds down). */
+export function getAmount0ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  return ((liquidity << 96n) * (b - a)) / b / a;
+}
+
+/** LiquidityAmounts.getAmount1ForLiquidity (rounds down). */
+export function getAmount1ForLiquidity(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): bigint {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  return (liquidity * (b - a)) / Q96;
+}
+
+/**
+ * Token amounts held by `liquidity` between two sqrt prices at the current
+ * price; the offline equivalent of Sapience `getTokensFromLiquidity`.
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  if (sqrtPriceX96 <= a) {
+    return { amount0: getAmount0ForLiquidity(a, b, liquidity), amount1: 0n };
+  }
+  if (sqrtPriceX96 < b) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, b, liquidity),
+      amount1: getAmount1ForLiquidity(a, sqrtPriceX96, liquidity),
+    };
+  }
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(a, b, liquidity) };
+}
+
+/** LiquidityAmounts.getLiquidityForAmounts. */
+export function getLiquidityForAmounts(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  amount0: bigint,
+  amount1: bigint
+): bigint {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  const forAmount0 = (lower: bigint) =>
+    (amount0 * ((lower * b) / Q96)) / (b - lower);
+  const forAmount1 = (upper: bigint) => (amount1 * Q96) / (upper - a);
+
+  if (sqrtPriceX96 <= a) return forAmount0(a);
+  if (sqrtPriceX96 < b) {
+    const l0 = forAmount0(sqrtPriceX96);
+    const l1 = forAmount1(sqrtPriceX96);
+    return l0 < l1 ? l0 : l1;
+  }
+  return forAmount1(b);
+}
+
+function sortRatios(a: bigint, b: bigint): [bigint, bigint] {
+  return a > b ? [b, a] : [a, b];
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  // One Newton step from the double estimate lands at or above the root, so
+  // the iterations below only ever descend onto the floor
+  let x = BigInt(Math.ceil(Math.sqrt(Number(value)))) || 1n;
+  x = (x + value / x) >> 1n;
+  for (;;) {
+    const y = (x + value / x) >> 1n;
+    if (y >= x) return x;
+    x = y;
+  }
+}
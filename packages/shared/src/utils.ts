@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { BotConfig } from './config';
+import type { NumericPrediction, NumericPredictionInput } from './forecaster';
 
 export class ApiClient {
   private axios: AxiosInstance;
@@ -44,26 +45,64 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export function retry<T>(
+// Coerce an untrusted value (e.g. parsed LLM output) into 0..1, or undefined
+export function parseUnitInterval(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!isFinite(n)) return undefined;
+  return Math.max(0, Math.min(1, n));
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  // Delay before the first retry, in ms
+  delay?: number;
+  // linear: delay * attempt; exponential: delay * 2^(attempt - 1)
+  backoff?: 'linear' | 'exponential';
+  maxDelay?: number;
+  // Randomise each delay between half and all of its value
+  jitter?: boolean;
+  // Give up early on errors that will not go away by retrying
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+export async function retry<T>(
   fn: () => Promise<T>,
-  maxAttempts: number = 3,
+  options: number | RetryOptions = 3,
   delay: number = 1000
 ): Promise<T> {
-  return new Promise(async (resolve, reject) => {
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const result = await fn();
-        resolve(result);
-        return;
-      } catch (error) {
-        if (attempt === maxAttempts) {
-          reject(error);
-          return;
-        }
-        await sleep(delay * attempt);
+  const {
+    maxAttempts = 3,
+    delay: baseDelay = delay,
+    backoff = 'linear',
+    maxDelay = Infinity,
+    jitter = false,
+    shouldRetry,
+    onRetry,
+  } = typeof options === 'number' ? { maxAttempts: options } : options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        (shouldRetry && !shouldRetry(error, attempt))
+      ) {
+        throw error;
       }
+      let wait = Math.min(
+        maxDelay,
+        backoff === 'exponential'
+          ? baseDelay * 2 ** (attempt - 1)
+          : baseDelay * attempt
+      );
+      if (jitter) wait = Math.round(wait * (0.5 + Math.random() / 2));
+      onRetry?.(error, attempt, wait);
+      await sleep(wait);
     }
-  });
+  }
 }
 
 export function createLogger(botName: string) {
@@ -112,3 +151,24 @@ export function createLogger(botName: string) {
     getLevel: (): LogLevel => currentLevel,
   };
 }
+
+/**
+ * Clamp a numeric prediction into the market's bounds and order the interval
+ * so that lower <= estimate <= upper.
+ */
+export function normalizeNumericPrediction(
+  prediction: NumericPrediction,
+  input: NumericPredictionInput
+): NumericPrediction {
+  const clamp = (v: number) =>
+    Math.max(input.minValue, Math.min(input.maxValue, v));
+  const estimate = clamp(prediction.estimate);
+  const lower = isFinite(prediction.lower) ? clamp(prediction.lower) : estimate;
+  const upper = isFinite(prediction.upper) ? clamp(prediction.upper) : estimate;
+  return {
+    ...prediction,
+    estimate,
+    lower: Math.min(lower, upper, estimate),
+    upper: Math.max(lower, upper, estimate),
+  };
+}
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createConfig } from '../src/config';
+import {
+  createForecaster,
+  EnsembleForecaster,
+  StaticForecaster,
+} from '../src/forecaster';
+import { OpenAIService } from '../src/openai';
+
+const MARKET = { question: 'Will it happen?', marketId: '1' };
+const NUMERIC = { ...MARKET, minValue: 0, maxValue: 100 };
+
+describe('forecasters', () => {
+  let dir: string;
+
+  // A StaticForecaster serving `entries` from a file in the test directory
+  const forecastFile = (name: string, entries: Record<string, unknown>) => {
+    const file = path.join(dir, `${name}.json`);
+    fs.writeFileSync(file, JSON.stringify(entries));
+    return file;
+  };
+  const member = (
+    name: string,
+    entries: Record<string, unknown>,
+    weight = 1
+  ) => ({
+    forecaster: new StaticForecaster(forecastFile(name, entries)),
+    weight,
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'forecaster-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('EnsembleForecaster', () => {
+    it('takes the weighted mean, discounting confidence by disagreement', async () => {
+      const ensemble = new EnsembleForecaster([
+        member('a', { default: { probabilityYes: 0.6, confidence: 0.8 } }),
+        // No confidence given: counted as 0.5
+        member('b', { default: 0.2 }),
+      ]);
+
+      const prediction = await ensemble.predictMarket(MARKET);
+
+      expect(prediction.probabilityYes).toBeCloseTo(0.4);
+      expect(prediction.disagreement).toBeCloseTo(0.2);
+      expect(prediction.confidence).toBeCloseTo(0.65 - 2 * 0.2);
+      expect(prediction.reasoning).toMatch(
+        /^Ensemble mean of static:.*=0\.600/
+      );
+    });
+
+    it('takes the weighted median', async () => {
+      const members = [
+        member('a', { default: 0.6 }),
+        member('b', { default: 0.2 }),
+        member('c', { default: 0.7 }),
+      ];
+
+      const even = new EnsembleForecaster(members, 'median');
+      expect((await even.predictMarket(MARKET)).probabilityYes).toBe(0.6);
+
+      members[2].weight = 3;
+      const weighted = new EnsembleForecaster(members, 'median');
+      expect((await weighted.predictMarket(MARKET)).probabilityYes).toBe(0.7);
+    });
+
+    it('agrees with itself when members agree', async () => {
+      const ensemble = new EnsembleForecaster([
+        member('a', { default: { probabilityYes: 0.3, confidence: 0.9 } }),
+        member('b', { default: { probabilityYes: 0.3, confidence: 0.7 } }),
+      ]);
+
+      const prediction = await ensemble.predictMarket(MARKET);
+
+      expect(prediction.disagreement).toBe(0);
+      expect(prediction.confidence).toBeCloseTo(0.8);
+    });
+
+    it('drops failed members and fails only when all of them do', async () => {
+      const ensemble = new EnsembleForecaster([
+        member('a', { default: 0.6 }),
+        // Knows only market 9
+        member('other', { '9': 0.9 }),
+      ]);
+
+      const prediction = await ensemble.predictMarket(MARKET);
+
+      expect(prediction.probabilityYes).toBe(0.6);
+      expect(prediction.disagreement).toBe(0);
+      expect(prediction.reasoning).toContain(
+        'failed: static:' + path.join(dir, 'other.json')
+      );
+      await expect(
+        new EnsembleForecaster([member('other', { '9': 0.9 })]).predictMarket(
+          MARKET
+        )
+      ).rejects.toThrow('All ensemble members failed');
+    });
+
+    it('combines numeric estimates and bounds, scaling disagreement by the range', async () => {
+      const ensemble = new EnsembleForecaster([
+        member('a', { default: { estimate: 40, lower: 30, upper: 50 } }),
+        member('b', { default: { estimate: 60, lower: 50, upper: 80 } }),
+      ]);
+
+      const prediction = await ensemble.predictNumericMarket(NUMERIC);
+
+      expect(prediction.estimate).toBeCloseTo(50);
+      expect(prediction.lower).toBeCloseTo(40);
+      expect(prediction.upper).toBeCloseTo(65);
+      expect(prediction.disagreement).toBeCloseTo(0.1);
+      expect(prediction.confidence).toBeCloseTo(0.5 - 2 * 0.1);
+    });
+  });
+
+  describe('createForecaster', () => {
+    it('builds the single backend FORECASTER names', () => {
+      const file = forecastFile('a', { default: 0.5 });
+
+      const forecaster = createForecaster(
+        createConfig({ forecaster: `static=${file}` })
+      );
+      const openai = createForecaster(
+        createConfig({ forecaster: 'openai=gpt-test', openaiApiKey: 'test' })
+      );
+
+      expect(forecaster).toBeInstanceOf(StaticForecaster);
+      expect(forecaster.name).toBe(`static:${file}`);
+      expect(openai).toBeInstanceOf(OpenAIService);
+      expect(openai.name).toBe('openai:gpt-test');
+    });
+
+    it('builds a weighted ensemble from ENSEMBLE_FORECASTERS', async () => {
+      const a = forecastFile('a', { default: 0.2 });
+      const b = forecastFile('b', { default: 0.8 });
+
+      const forecaster = createForecaster(
+        createConfig({
+          forecaster: 'ensemble',
+          ensembleForecasters: `static=${a}*3, static=${b}`,
+          ensembleMethod: 'mean',
+        })
+      );
+
+      expect(forecaster).toBeInstanceOf(EnsembleForecaster);
+      expect(forecaster.name).toBe(
+        `ensemble:mean(static:${a}*3,static:${b}*1)`
+      );
+      expect(
+        (await forecaster.predictMarket(MARKET)).probabilityYes
+      ).toBeCloseTo(0.35);
+    });
+
+    it('rejects incomplete or unknown settings', () => {
+      const create = (overrides: Parameters<typeof createConfig>[0]) => () =>
+        createForecaster(createConfig(overrides));
+
+      expect(create({ forecaster: 'crystal-ball' })).toThrow(
+        'Unknown forecaster: crystal-ball'
+      );
+      expect(
+        create({ forecaster: 'local', localLlmBaseUrl: undefined })
+      ).toThrow('LOCAL_LLM_BASE_URL is required');
+      expect(
+        create({ forecaster: 'ensemble', ensembleForecasters: undefined })
+      ).toThrow('ENSEMBLE_FORECASTERS is required');
+      expect(
+        create({ forecaster: 'ensemble', ensembleForecasters: 'static=x*-1' })
+      ).toThrow('Invalid ensemble weight');
+    });
+  });
+});
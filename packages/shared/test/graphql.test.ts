@@ -0,0 +1,78 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createConfig } from '../src/config';
+import { GraphQLService, MARKETS_QUERY } from '../src/graphql';
+
+const CAP = 30;
+
+describe('GraphQLService.paginate', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: Array<Record<string, any>>;
+  let total: number;
+
+  beforeEach(async () => {
+    requests = [];
+    total = 75;
+    // Serves `total` markets, never more than CAP per request
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { variables } = JSON.parse(body);
+        requests.push(variables);
+        const take = Math.min(variables.take, CAP);
+        const markets = Array.from(
+          { length: Math.max(0, Math.min(take, total - variables.skip)) },
+          (_, i) => ({ id: variables.skip + i + 1 })
+        );
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ data: { markets } }));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const service = (pageSize: number, maxPages = 100) =>
+    new GraphQLService(
+      createConfig({
+        graphqlEndpoint: endpoint,
+        graphqlPageSize: pageSize,
+        graphqlMaxPages: maxPages,
+      })
+    );
+
+  it('reads every page even when the API caps the page size', async () => {
+    const where = { settled: { equals: false } };
+
+    const markets = await service(50).paginate(
+      MARKETS_QUERY,
+      { where, orderBy: [{ id: 'asc' }] },
+      (r) => r.markets
+    );
+
+    expect(markets.map((m) => m.id)).toEqual(
+      Array.from({ length: 75 }, (_, i) => i + 1)
+    );
+    expect(requests.map((v) => v.skip)).toEqual([0, 30, 60, 75]);
+    expect(requests[0]).toEqual({
+      where,
+      orderBy: [{ id: 'asc' }],
+      take: 50,
+      skip: 0,
+    });
+  });
+
+  it('refuses to return a list cut short by the page limit', async () => {
+    await expect(
+      service(10, 3).paginate(MARKETS_QUERY, {}, (r) => r.markets)
+    ).rejects.toThrow('did not end within 3 pages of 10');
+  });
+});
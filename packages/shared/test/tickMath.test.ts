@@ -0,0 +1,101 @@
+import {
+  getAmountsForLiquidity,
+  getLiquidityForAmounts,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+} from '../src/tickMath';
+
+// Expected values are the ones the Solidity libraries return in the
+// Uniswap v3-core and v3-periphery test suites
+
+// sqrt(reserve1 / reserve0) in Q64.96, rounded down
+function encodePriceSqrt(reserve1: bigint, reserve0: bigint): bigint {
+  const value = (reserve1 << 192n) / reserve0;
+  let x = value;
+  let y = (x + 1n) >> 1n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) >> 1n;
+  }
+  return x;
+}
+
+describe('getSqrtRatioAtTick', () => {
+  it('matches TickMath at the bounds and at tick 0', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MIN_TICK + 1)).toBe(4295343490n);
+    expect(getSqrtRatioAtTick(0)).toBe(2n ** 96n);
+    expect(getSqrtRatioAtTick(MAX_TICK - 1)).toBe(
+      1461373636630004318706518188784493106690254656249n
+    );
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+  });
+
+  it('matches TickMath either side of 0', () => {
+    expect(getSqrtRatioAtTick(50)).toBe(79426470787362580746886972461n);
+    expect(getSqrtRatioAtTick(-50)).toBe(79030349367926598376800521322n);
+  });
+
+  it('throws for ticks out of range', () => {
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow('out of range');
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow('out of range');
+    expect(() => getSqrtRatioAtTick(1.5)).toThrow('out of range');
+  });
+});
+
+describe('getTickAtSqrtRatio', () => {
+  it('matches TickMath at the bounds', () => {
+    expect(getTickAtSqrtRatio(MIN_SQRT_RATIO)).toBe(MIN_TICK);
+    expect(getTickAtSqrtRatio(MIN_SQRT_RATIO + 1n)).toBe(MIN_TICK);
+    expect(getTickAtSqrtRatio(MAX_SQRT_RATIO - 1n)).toBe(MAX_TICK - 1);
+  });
+
+  it('round-trips ticks and rounds ratios between ticks down', () => {
+    for (const tick of [MIN_TICK + 1, -200000, -50, -1, 0, 1, 50, 200000]) {
+      const ratio = getSqrtRatioAtTick(tick);
+      expect(getTickAtSqrtRatio(ratio)).toBe(tick);
+      expect(getTickAtSqrtRatio(ratio - 1n)).toBe(tick - 1);
+      expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick + 1) - 1n)).toBe(tick);
+    }
+  });
+
+  it('throws for ratios out of range', () => {
+    expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO - 1n)).toThrow(
+      'out of range'
+    );
+    expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).toThrow('out of range');
+  });
+});
+
+describe('liquidity amounts', () => {
+  const lower = encodePriceSqrt(100n, 110n);
+  const upper = encodePriceSqrt(110n, 100n);
+
+  it('holds only token0 below the range', () => {
+    expect(
+      getAmountsForLiquidity(encodePriceSqrt(99n, 110n), lower, upper, 1048n)
+    ).toEqual({ amount0: 99n, amount1: 0n });
+  });
+
+  it('holds both tokens inside the range', () => {
+    expect(
+      getAmountsForLiquidity(encodePriceSqrt(1n, 1n), lower, upper, 2148n)
+    ).toEqual({ amount0: 99n, amount1: 99n });
+  });
+
+  it('holds only token1 above the range', () => {
+    expect(
+      getAmountsForLiquidity(encodePriceSqrt(111n, 100n), lower, upper, 2097n)
+    ).toEqual({ amount0: 0n, amount1: 199n });
+  });
+
+  it('takes the limiting amount for liquidity inside the range', () => {
+    expect(
+      getLiquidityForAmounts(encodePriceSqrt(1n, 1n), lower, upper, 100n, 200n)
+    ).toBe(2148n);
+  });
+});